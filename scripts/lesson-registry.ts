@@ -0,0 +1,38 @@
+/**
+ * Lesson Registry Sync
+ *
+ * Reports drift between content/lesson-registry.json and lesson frontmatter,
+ * or regenerates the registry from frontmatter.
+ *
+ * Usage:
+ *   npm run registry:drift      # report differences, exit 1 if any
+ *   npm run registry:generate   # rewrite lesson-registry.json from frontmatter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findRegistryDrift, formatDriftReport, generateRegistry, parseLessonFile } from '../src/utils/RegistryGenerator';
+import { LessonRegistry } from '../src/types';
+
+const root = path.join(__dirname, '..');
+const registryPath = path.join(root, 'content', 'lesson-registry.json');
+const lessonsDir = path.join(root, 'content', 'lessons');
+
+const registry: LessonRegistry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+const files = fs.readdirSync(lessonsDir)
+  .filter(file => file.endsWith('.md'))
+  .sort()
+  .map(file => {
+    const markdownFile = `content/lessons/${file}`;
+    return parseLessonFile(markdownFile, fs.readFileSync(path.join(root, markdownFile), 'utf-8'));
+  });
+
+if (process.argv.includes('--write')) {
+  const generated = generateRegistry(registry, files);
+  fs.writeFileSync(registryPath, JSON.stringify(generated, null, 2));
+  console.log(`Wrote ${generated.lessons.length} lessons to ${path.relative(root, registryPath)}`);
+} else {
+  const drift = findRegistryDrift(registry, files);
+  console.log(formatDriftReport(drift));
+  process.exitCode = drift.length > 0 ? 1 : 0;
+}
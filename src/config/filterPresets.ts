@@ -0,0 +1,82 @@
+/**
+ * Filter Presets Configuration
+ *
+ * Built-in lesson tree presets, plus helpers for user-defined presets
+ * (stored through StateManager).
+ */
+
+import { FilterConfig, FilterPreset } from '../types';
+
+/**
+ * Base config shared by built-in presets
+ */
+const BASE_CONFIG: FilterConfig = {
+  filters: {},
+  sortBy: 'order',
+  sortDirection: 'asc',
+  showCategories: true,
+  showProgress: true,
+};
+
+/**
+ * Built-in presets shown at the top of the preset picker
+ */
+export const BUILTIN_FILTER_PRESETS: FilterPreset[] = [
+  {
+    id: 'continue',
+    name: 'Continue where I left off',
+    icon: 'history',
+    builtin: true,
+    config: {
+      ...BASE_CONFIG,
+      filters: { progress: ['in-progress'] },
+      sortBy: 'recent',
+      sortDirection: 'desc',
+    },
+  },
+  {
+    id: 'production-serving',
+    name: 'Production serving',
+    icon: 'server-process',
+    builtin: true,
+    config: {
+      ...BASE_CONFIG,
+      filters: { tags: ['production', 'vllm', 'deployment'] },
+    },
+  },
+  {
+    id: 'compiler-track',
+    name: 'Compiler track',
+    icon: 'symbol-operator',
+    builtin: true,
+    config: {
+      ...BASE_CONFIG,
+      filters: { tags: ['forge', 'xla', 'jax', 'compiler'] },
+    },
+  },
+  {
+    id: 'validated-on-my-hardware',
+    name: 'Validated on my hardware',
+    icon: 'verified',
+    builtin: true,
+    config: {
+      ...BASE_CONFIG,
+      filters: { validatedOnDetectedHardware: true },
+    },
+  },
+];
+
+/**
+ * Create a user preset with an ID that doesn't clash with existing presets
+ */
+export function createFilterPreset(name: string, config: FilterConfig, existing: FilterPreset[]): FilterPreset {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+  const taken = new Set([...BUILTIN_FILTER_PRESETS, ...existing].map(preset => preset.id));
+
+  let id = `user-${base}`;
+  for (let n = 2; taken.has(id); n++) {
+    id = `user-${base}-${n}`;
+  }
+
+  return { id, name, icon: 'bookmark', config, builtin: false };
+}
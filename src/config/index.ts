@@ -2,3 +2,4 @@
  * Configuration barrel export
  */
 export * from './modelRegistry';
+export * from './filterPresets';
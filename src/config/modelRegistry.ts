@@ -74,18 +74,20 @@ export function getModelConfig(modelKey: string = DEFAULT_MODEL_KEY): ModelConfi
 
 /**
  * Helper functions for model paths
+ *
+ * @param modelsDir - Models directory (the `tenstorrent.paths.models` setting; defaults to ~/models)
  */
-export async function getModelBasePath(modelKey: string = DEFAULT_MODEL_KEY): Promise<string> {
+export async function getModelBasePath(modelKey: string = DEFAULT_MODEL_KEY, modelsDir?: string): Promise<string> {
   const os = await import('os');
   const path = await import('path');
   const config = getModelConfig(modelKey);
-  return path.join(os.homedir(), 'models', config.localDirName);
+  return path.join(modelsDir ?? path.join(os.homedir(), 'models'), config.localDirName);
 }
 
-export async function getModelOriginalPath(modelKey: string = DEFAULT_MODEL_KEY): Promise<string> {
+export async function getModelOriginalPath(modelKey: string = DEFAULT_MODEL_KEY, modelsDir?: string): Promise<string> {
   const path = await import('path');
   const config = getModelConfig(modelKey);
-  const basePath = await getModelBasePath(modelKey);
+  const basePath = await getModelBasePath(modelKey, modelsDir);
 
   if (!config.originalSubdir) {
     throw new Error(`Model '${modelKey}' does not have an originalSubdir. This model may not support Direct API.`);
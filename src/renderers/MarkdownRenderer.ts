@@ -3,6 +3,8 @@
  *
  * Converts markdown content to HTML with:
  * - Command button support
+ * - Runnable code blocks (```bash run / ```bash {terminal=...})
+ * - Heading anchors (for jumping to search matches)
  * - Syntax highlighting
  * - Theme-aware styling
  * - XSS protection
@@ -14,6 +16,9 @@ import DOMPurify from 'isomorphic-dompurify';
 import * as fs from 'fs';
 import * as path from 'path';
 import matter from 'gray-matter';
+import { HeadingSlugger } from '../utils/LessonSearch';
+import { parseFenceInfo } from '../utils/RunnableBlocks';
+import { codeBlockStepKey, commandStepKey } from '../utils/LessonSteps';
 
 /**
  * Markdown rendering configuration
@@ -51,6 +56,7 @@ export interface RenderedMarkdown {
  */
 export class MarkdownRenderer {
   private options: MarkdownRenderOptions;
+  private slugger = new HeadingSlugger();
 
   constructor(options: MarkdownRenderOptions = {}) {
     this.options = {
@@ -81,9 +87,28 @@ export class MarkdownRenderer {
       })
     );
 
-    // Configure marked v17 API with custom link renderer for command buttons
+    // Configure marked v17 API with custom link renderer for command buttons,
+    // heading anchors (same slugs as LessonSearch uses) and runnable blocks
+    const slug = (text: string) => this.slugger.slug(text);
     marked.use({
       renderer: {
+        code: (token: any) => {
+          const fence = parseFenceInfo(token.lang);
+          if (!fence.runnable) {
+            return false;  // Default (highlighted) rendering
+          }
+
+          // Highlighting has already escaped the text
+          const code = token.escaped ? token.text : this.escapeHtml(token.text);
+          // Key on the source code (token.text holds the highlighted HTML)
+          const source = token.raw.replace(/^\s*(`{3,}|~{3,})[^\n]*\n/, '').replace(/(`{3,}|~{3,})\s*$/, '');
+          const stepKey = codeBlockStepKey(source);
+          return `<pre data-runnable="true" data-terminal="${this.escapeHtml(fence.terminal!)}" data-step-key="${stepKey}"><code class="language-${this.escapeHtml(fence.language || 'plaintext')}">${code}</code></pre>\n`;
+        },
+        heading(token) {
+          const text = this.parser.parseInline(token.tokens);
+          return `<h${token.depth} id="${slug(token.text)}">${text}</h${token.depth}>\n`;
+        },
         link: (token: any) => {
           const { href, title, tokens } = token;
           const text = this.parseInlineTokens(tokens);
@@ -95,6 +120,7 @@ export class MarkdownRenderer {
 
             return `<button class="tt-command-button"
                             data-command="${this.escapeHtml(commandId)}"
+                            data-step-key="${this.escapeHtml(commandStepKey(commandId))}"
                             ${titleAttr}>
                       ${text}
                     </button>`;
@@ -134,6 +160,9 @@ export class MarkdownRenderer {
     const frontmatter = parsed.data;
     const content = parsed.content;
 
+    // Fresh anchors per document
+    this.slugger = new HeadingSlugger();
+
     // Convert markdown to HTML
     let html = await marked.parse(content);
 
@@ -141,7 +170,7 @@ export class MarkdownRenderer {
     if (this.options.sanitize) {
       html = DOMPurify.sanitize(html, {
         ADD_TAGS: ['button'],  // Allow our command buttons
-        ADD_ATTR: ['data-command', 'class'],  // Allow our data attributes
+        ADD_ATTR: ['data-command', 'data-runnable', 'data-terminal', 'data-step-key', 'class'],  // Allow our data attributes
       });
     }
 
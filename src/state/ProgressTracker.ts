@@ -3,11 +3,18 @@
  *
  * Tracks user progress through lessons:
  * - Command execution
+ * - Per-step results (done / failed)
+ * - Lesson and section notes
  * - Lesson completion
- * - Time spent
+ * - Time spent (only while the lesson is visible, focused and not idle)
  * - Statistics
  *
  * Integrates with existing command system to auto-update progress.
+ *
+ * Progress is stored as an append-only event log (see ProgressEvents);
+ * lesson state and totals are derived from it. The log is saved whenever
+ * progress changes; session time on its own is saved at most every
+ * SESSION_SAVE_INTERVAL_MS (and on dispose).
  */
 
 import * as vscode from 'vscode';
@@ -15,12 +22,28 @@ import {
   ProgressState,
   GlobalProgressState,
   ProgressChangeEvent,
+  ProgressEvent,
   ProgressStatistics,
 } from '../types';
 import { LessonMetadata } from '../types';
+import { getStepStates, StepState } from '../utils/LessonSteps';
+import {
+  appendProgressEvent,
+  emptyLessonProgress,
+  importProgressEvents,
+  progressHistory,
+  replayProgress,
+} from '../utils/ProgressEvents';
+import { SessionTimer } from '../utils/SessionTimer';
 import { StateManager } from './StateManager';
 
-const PROGRESS_STATE_KEY = 'tenstorrent.progress';
+const PROGRESS_EVENTS_KEY = 'tenstorrent.progressEvents';
+
+/** Progress saved before the event log; read once to start the log */
+const LEGACY_PROGRESS_STATE_KEY = 'tenstorrent.progress';
+
+/** How often the log is saved for session time alone (ms) */
+const SESSION_SAVE_INTERVAL_MS = 10 * 60 * 1000;
 
 /**
  * Tracks lesson progress and statistics
@@ -30,118 +53,133 @@ export class ProgressTracker {
   private _onDidChangeProgress = new vscode.EventEmitter<ProgressChangeEvent>();
   public readonly onDidChangeProgress = this._onDidChangeProgress.event;
 
+  // Event log and the progress derived from it
+  private events: ProgressEvent[] | undefined;
+  private derived: GlobalProgressState | undefined;
+
+  // Pending save of the event log, when it was last saved and whether
+  // it has events that aren't saved yet
+  private saving: Promise<void> = Promise.resolve();
+  private lastSaved = 0;
+  private unsaved = false;
+
   // Session tracking
-  private currentSession: {
-    lessonId: string;
-    startTime: number;
-  } | null = null;
+  private sessionTimer = new SessionTimer((lessonId, seconds) => {
+    this.record({ type: 'session', lessonId, at: Date.now(), seconds });
+    if (Date.now() - this.lastSaved >= SESSION_SAVE_INTERVAL_MS) {
+      this.saveSessionTime();
+    }
+  });
+  private disposables: vscode.Disposable[] = [];
 
   constructor(context: vscode.ExtensionContext, _stateManager: StateManager) {
     this.context = context;
+
+    // Time doesn't count while VSCode isn't focused
+    this.sessionTimer.setFocused(vscode.window.state.focused);
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState(state => this.sessionTimer.setFocused(state.focused))
+    );
+  }
+
+  /**
+   * Get the progress event log
+   */
+  private getEvents(): ProgressEvent[] {
+    if (!this.events) {
+      const stored = this.context.globalState.get<ProgressEvent[]>(PROGRESS_EVENTS_KEY);
+      const legacy = this.context.globalState.get<GlobalProgressState>(LEGACY_PROGRESS_STATE_KEY);
+      this.events = stored ?? (legacy ? [{ type: 'snapshot', at: legacy.lastSync ?? 0, progress: legacy }] : []);
+    }
+    return this.events;
   }
 
   /**
-   * Get global progress state
+   * Get global progress state (derived from the event log)
    */
   private getGlobalState(): GlobalProgressState {
-    return this.context.globalState.get<GlobalProgressState>(
-      PROGRESS_STATE_KEY,
-      {
-        lessons: {},
-        lastSync: Date.now(),
-        totalCompleted: 0,
-        totalInProgress: 0,
-        totalTimeSpent: 0,
-      }
+    if (!this.derived) {
+      this.derived = replayProgress(this.getEvents());
+    }
+    return this.derived;
+  }
+
+  /**
+   * Append events to the log and save it. The in-memory log is updated
+   * immediately, so reads and later appends always see these events.
+   */
+  private append(...events: ProgressEvent[]): Promise<void> {
+    this.record(...events);
+    return this.save();
+  }
+
+  /**
+   * Append events to the in-memory log without saving it
+   */
+  private record(...events: ProgressEvent[]): void {
+    this.events = events.reduce(appendProgressEvent, this.getEvents());
+    this.derived = undefined;
+    this.unsaved = true;
+  }
+
+  /**
+   * Save the log. Saves are chained so an older log can never overwrite a
+   * newer one.
+   */
+  private save(): Promise<void> {
+    this.unsaved = false;
+    this.lastSaved = Date.now();
+
+    const save = this.saving.then(() =>
+      this.context.globalState.update(PROGRESS_EVENTS_KEY, this.events)
     );
+    this.saving = save.then(undefined, () => undefined);
+    return save;
   }
 
   /**
-   * Save global progress state
+   * Save session time recorded since the last save
    */
-  private async saveGlobalState(state: GlobalProgressState): Promise<void> {
-    state.lastSync = Date.now();
-    await this.context.globalState.update(PROGRESS_STATE_KEY, state);
+  private saveSessionTime(): void {
+    this.save().catch(error => console.error('Failed to save lesson session time:', error));
   }
 
   /**
    * Get progress for a specific lesson
    */
   getProgress(lessonId: string): ProgressState {
-    const globalState = this.getGlobalState();
-    return (
-      globalState.lessons[lessonId] ?? {
-        lessonId,
-        status: 'not-started',
-        completedCommands: [],
-        lastAccessed: 0,
-        timeSpentSeconds: 0,
-        viewCount: 0,
-      }
-    );
+    return this.getGlobalState().lessons[lessonId] ?? emptyLessonProgress(lessonId);
   }
 
   /**
-   * Start tracking a lesson session
+   * Start tracking a lesson session (ends the previous session, if any)
    */
-  startSession(lessonId: string): void {
-    // End previous session if any
-    if (this.currentSession) {
-      this.endSession();
-    }
-
-    this.currentSession = {
-      lessonId,
-      startTime: Date.now(),
-    };
+  startSession(lessonId: string): Promise<void> {
+    this.sessionTimer.start(lessonId);
 
     // Update view count and last accessed
-    this.updateLessonAccess(lessonId);
+    return this.append({ type: 'opened', lessonId, at: Date.now() });
   }
 
   /**
-   * End current lesson session
+   * End current lesson session, recording its remaining time
    */
   endSession(): void {
-    if (!this.currentSession) {
-      return;
-    }
-
-    const duration = Math.floor((Date.now() - this.currentSession.startTime) / 1000);
-    const lessonId = this.currentSession.lessonId;
-
-    // Update time spent
-    const globalState = this.getGlobalState();
-    const progress = this.getProgress(lessonId);
-    progress.timeSpentSeconds += duration;
-    globalState.lessons[lessonId] = progress;
-    globalState.totalTimeSpent += duration;
-
-    this.saveGlobalState(globalState);
-    this.currentSession = null;
+    this.sessionTimer.stop();
   }
 
   /**
-   * Update lesson access (view count, last accessed)
+   * Lesson panel shown or hidden (time doesn't count while hidden)
    */
-  private async updateLessonAccess(lessonId: string): Promise<void> {
-    const globalState = this.getGlobalState();
-    const progress = this.getProgress(lessonId);
-
-    if (!progress.firstAccessed) {
-      progress.firstAccessed = Date.now();
-    }
-    progress.lastAccessed = Date.now();
-    progress.viewCount = (progress.viewCount || 0) + 1;
-
-    // Update status to in-progress if not started
-    if (progress.status === 'not-started') {
-      progress.status = 'in-progress';
-      globalState.totalInProgress++;
-    }
+  setSessionVisible(visible: boolean): void {
+    this.sessionTimer.setVisible(visible);
+  }
 
-    globalState.lessons[lessonId] = progress;
-    await this.saveGlobalState(globalState);
+  /**
+   * User activity in the lesson (keeps the session from going idle)
+   */
+  recordActivity(): void {
+    this.sessionTimer.activity();
   }
 
   /**
@@ -152,48 +190,60 @@ export class ProgressTracker {
     commandId: string,
     lesson: LessonMetadata
   ): Promise<void> {
-    const globalState = this.getGlobalState();
     const progress = this.getProgress(lessonId);
     const oldStatus = progress.status;
-
-    // Add command if not already recorded
-    if (!progress.completedCommands.includes(commandId)) {
-      progress.completedCommands.push(commandId);
-    }
+    const events: ProgressEvent[] = [{ type: 'command-run', lessonId, at: Date.now(), commandId }];
 
     // Check if lesson is now complete
-    const isComplete = this.isLessonComplete(lesson, progress);
-    if (isComplete && progress.status !== 'completed') {
-      progress.status = 'completed';
-
-      // Update global counts
-      if (oldStatus === 'in-progress') {
-        globalState.totalInProgress--;
-      } else if (oldStatus === 'not-started') {
-        // Shouldn't happen, but handle it
-      }
-      globalState.totalCompleted++;
+    const completedCommands = [...progress.completedCommands, commandId];
+    const isComplete = this.isLessonComplete(lesson, { ...progress, completedCommands });
+    if (isComplete && oldStatus !== 'completed') {
+      events.push({ type: 'completed', lessonId, at: Date.now() });
 
       // Show completion notification
       this.showCompletionNotification(lesson);
-    } else if (progress.status === 'not-started') {
-      progress.status = 'in-progress';
-      globalState.totalInProgress++;
     }
 
-    globalState.lessons[lessonId] = progress;
-    await this.saveGlobalState(globalState);
+    const saved = this.append(...events);
+    const newStatus = this.getProgress(lessonId).status;
+    await saved;
 
     // Fire change event
     this._onDidChangeProgress.fire({
       lessonId,
       oldStatus,
-      newStatus: progress.status,
+      newStatus,
       triggeringCommand: commandId,
       timestamp: Date.now(),
     });
   }
 
+  /**
+   * Record whether a step's last run succeeded or failed
+   */
+  async recordStepResult(lessonId: string, stepKey: string, passed: boolean): Promise<void> {
+    await this.append({ type: 'step-result', lessonId, at: Date.now(), stepKey, passed });
+  }
+
+  /**
+   * Get done/failed steps of a lesson (steps not listed are pending)
+   */
+  getStepStates(lessonId: string): Record<string, StepState> {
+    return getStepStates(this.getProgress(lessonId));
+  }
+
+  /**
+   * Save a lesson note, or a note pinned to a section when `section` is
+   * given. Empty text removes the note.
+   */
+  async saveNote(
+    lessonId: string,
+    text: string,
+    section?: { anchor: string; heading: string }
+  ): Promise<void> {
+    await this.append({ type: 'note', lessonId, at: Date.now(), text, section });
+  }
+
   /**
    * Check if lesson is complete
    */
@@ -205,9 +255,11 @@ export class ProgressTracker {
       return false;
     }
 
-    // Check if all completion events have been executed
+    // Check if all completion events have been executed.
+    // Registry events use the activation-event form ("onCommand:<id>"),
+    // while executions are recorded by bare command ID.
     return lesson.completionEvents.every(eventCommand =>
-      progress.completedCommands.includes(eventCommand)
+      progress.completedCommands.includes(eventCommand.replace(/^onCommand:/, ''))
     );
   }
 
@@ -292,20 +344,10 @@ export class ProgressTracker {
    * Reset progress for a lesson
    */
   async resetProgress(lessonId: string): Promise<void> {
-    const globalState = this.getGlobalState();
-    const progress = globalState.lessons[lessonId];
+    const progress = this.getGlobalState().lessons[lessonId];
 
     if (progress) {
-      // Update global counts
-      if (progress.status === 'completed') {
-        globalState.totalCompleted--;
-      } else if (progress.status === 'in-progress') {
-        globalState.totalInProgress--;
-      }
-
-      // Remove lesson progress
-      delete globalState.lessons[lessonId];
-      await this.saveGlobalState(globalState);
+      await this.append({ type: 'reset', lessonId, at: Date.now() });
 
       this._onDidChangeProgress.fire({
         lessonId,
@@ -320,13 +362,7 @@ export class ProgressTracker {
    * Reset all progress
    */
   async resetAllProgress(): Promise<void> {
-    await this.context.globalState.update(PROGRESS_STATE_KEY, {
-      lessons: {},
-      lastSync: Date.now(),
-      totalCompleted: 0,
-      totalInProgress: 0,
-      totalTimeSpent: 0,
-    });
+    await this.append({ type: 'reset', at: Date.now() });
 
     this._onDidChangeProgress.fire({
       lessonId: 'all',
@@ -344,10 +380,22 @@ export class ProgressTracker {
   }
 
   /**
-   * Import progress from backup
+   * Progress events since the last full reset, oldest first
    */
-  async importProgress(state: GlobalProgressState): Promise<void> {
-    await this.saveGlobalState(state);
+  getHistory(): ProgressEvent[] {
+    return progressHistory(this.getEvents());
+  }
+
+  /**
+   * Import progress from a backup or another machine.
+   * 'merge' (default) combines it with local progress (see ProgressSync);
+   * 'replace' overwrites local progress. Only changed lessons are logged.
+   */
+  async importProgress(state: GlobalProgressState, strategy: 'merge' | 'replace' = 'merge'): Promise<void> {
+    const events = importProgressEvents(this.getGlobalState(), state, strategy, Date.now());
+    if (events.length > 0) {
+      await this.append(...events);
+    }
     this._onDidChangeProgress.fire({
       lessonId: 'all',
       oldStatus: 'not-started',
@@ -355,4 +403,21 @@ export class ProgressTracker {
       timestamp: Date.now(),
     });
   }
+
+  /**
+   * End the current session, save its time and stop tracking window focus
+   */
+  dispose(): void {
+    this.sessionTimer.dispose();
+    if (this.unsaved) {
+      this.saveSessionTime();
+    }
+    this._onDidChangeProgress.dispose();
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
 }
@@ -10,6 +10,7 @@
  */
 
 import * as vscode from 'vscode';
+import { FilterConfig, FilterPreset, HardwareType, HardwareViewMode } from '../types';
 
 /**
  * Extension state keys for globalState storage
@@ -17,8 +18,10 @@ import * as vscode from 'vscode';
 const STATE_KEYS = {
   CURRENT_LESSON: 'tenstorrent.currentLesson',
   FILTER_STATE: 'tenstorrent.filterState',
+  FILTER_PRESETS: 'tenstorrent.filterPresets',
   TREE_EXPANDED: 'tenstorrent.treeExpanded',
   LAST_HARDWARE: 'tenstorrent.lastHardware',
+  HARDWARE_VIEW: 'tenstorrent.hardwareView',
   UI_PREFERENCES: 'tenstorrent.uiPreferences',
 } as const;
 
@@ -72,18 +75,44 @@ export class StateManager {
   /**
    * Get filter state
    */
-  getFilterState(): any {
-    return this.context.globalState.get(STATE_KEYS.FILTER_STATE, {});
+  getFilterState(): Partial<FilterConfig> {
+    return this.context.globalState.get<Partial<FilterConfig>>(STATE_KEYS.FILTER_STATE, {});
   }
 
   /**
    * Set filter state
    */
-  async setFilterState(filterState: any): Promise<void> {
+  async setFilterState(filterState: Partial<FilterConfig>): Promise<void> {
     await this.context.globalState.update(STATE_KEYS.FILTER_STATE, filterState);
     this._onDidChangeState.fire('filterState');
   }
 
+  /**
+   * Get user-defined filter presets
+   */
+  getFilterPresets(): FilterPreset[] {
+    return this.context.globalState.get<FilterPreset[]>(STATE_KEYS.FILTER_PRESETS, []);
+  }
+
+  /**
+   * Add or replace a user-defined filter preset (matched by ID)
+   */
+  async saveFilterPreset(preset: FilterPreset): Promise<void> {
+    const presets = this.getFilterPresets().filter(p => p.id !== preset.id);
+    presets.push({ ...preset, builtin: false });
+    await this.context.globalState.update(STATE_KEYS.FILTER_PRESETS, presets);
+    this._onDidChangeState.fire('filterPresets');
+  }
+
+  /**
+   * Delete a user-defined filter preset
+   */
+  async deleteFilterPreset(presetId: string): Promise<void> {
+    const presets = this.getFilterPresets().filter(p => p.id !== presetId);
+    await this.context.globalState.update(STATE_KEYS.FILTER_PRESETS, presets);
+    this._onDidChangeState.fire('filterPresets');
+  }
+
   /**
    * Get tree expanded state
    */
@@ -104,18 +133,33 @@ export class StateManager {
   /**
    * Get last detected hardware
    */
-  getLastHardware(): string | undefined {
-    return this.context.globalState.get<string>(STATE_KEYS.LAST_HARDWARE);
+  getLastHardware(): HardwareType | undefined {
+    return this.context.globalState.get<HardwareType>(STATE_KEYS.LAST_HARDWARE);
   }
 
   /**
    * Set last detected hardware
    */
-  async setLastHardware(hardware: string): Promise<void> {
+  async setLastHardware(hardware: HardwareType): Promise<void> {
     await this.context.globalState.update(STATE_KEYS.LAST_HARDWARE, hardware);
     this._onDidChangeState.fire('lastHardware');
   }
 
+  /**
+   * Get hardware view mode ("my hardware" by default)
+   */
+  getHardwareView(): HardwareViewMode {
+    return this.context.globalState.get<HardwareViewMode>(STATE_KEYS.HARDWARE_VIEW, 'mine');
+  }
+
+  /**
+   * Set hardware view mode
+   */
+  async setHardwareView(mode: HardwareViewMode): Promise<void> {
+    await this.context.globalState.update(STATE_KEYS.HARDWARE_VIEW, mode);
+    this._onDidChangeState.fire('hardwareView');
+  }
+
   /**
    * Get UI preferences
    */
@@ -159,8 +203,10 @@ export class StateManager {
     return {
       currentLesson: this.getCurrentLesson(),
       filterState: this.getFilterState(),
+      filterPresets: this.getFilterPresets(),
       treeExpanded: this.getTreeExpanded(),
       lastHardware: this.getLastHardware(),
+      hardwareView: this.getHardwareView(),
       uiPreferences: this.getUIPreferences(),
     };
   }
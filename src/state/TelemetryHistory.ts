@@ -0,0 +1,220 @@
+/**
+ * Telemetry History
+ *
+ * Bounded in-memory history of per-chip telemetry samples collected from
+ * `tt-smi -s` polls. Used by the Device Monitor to plot rolling charts,
+ * detect threshold crossings and export CSV.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { ChipInfo, DeviceInventory } from '../types';
+
+/**
+ * Metrics plotted by the Device Monitor
+ */
+export type TelemetryMetric = 'temperature' | 'power' | 'aiclk' | 'voltage';
+
+/**
+ * One telemetry sample for one chip
+ */
+export interface TelemetrySample {
+  /** Sample time (ms since epoch) */
+  timestamp: number;
+
+  /** Chip index in tt-smi order */
+  chipIndex: number;
+
+  /** Raw board type (e.g., "n300 L") */
+  boardType: string;
+
+  /** ASIC temperature (°C) */
+  temperature: number | null;
+
+  /** Power draw (W) */
+  power: number | null;
+
+  /** AI clock (MHz) */
+  aiclk: number | null;
+
+  /** Core voltage (V) */
+  voltage: number | null;
+}
+
+/**
+ * Upper limits used for threshold lines and warnings
+ */
+export type TelemetryThresholds = Partial<Record<TelemetryMetric, number>>;
+
+/**
+ * A metric that crossed its threshold on the latest sample
+ */
+export interface ThresholdBreach {
+  chipIndex: number;
+  boardType: string;
+  metric: TelemetryMetric;
+  value: number;
+  limit: number;
+}
+
+/**
+ * Fallback limits when firmware does not report them
+ */
+const DEFAULT_THRESHOLDS: Required<Pick<TelemetryThresholds, 'temperature' | 'power' | 'voltage'>> = {
+  temperature: 85,
+  power: 150,
+  voltage: 0.95,
+};
+
+/**
+ * Default number of samples kept per chip (1 hour at 10s polling)
+ */
+export const DEFAULT_HISTORY_SIZE = 360;
+
+/**
+ * Thresholds for a chip, taken from its firmware limits where available
+ */
+export function getChipThresholds(chip: ChipInfo): TelemetryThresholds {
+  return {
+    temperature: chip.limits.thermalLimit ?? DEFAULT_THRESHOLDS.temperature,
+    power: chip.limits.tdpLimit ?? DEFAULT_THRESHOLDS.power,
+    voltage: chip.limits.vddMax ?? DEFAULT_THRESHOLDS.voltage,
+    aiclk: chip.limits.asicFmax ?? undefined,
+  };
+}
+
+/**
+ * Bounded per-chip telemetry history
+ */
+export class TelemetryHistory {
+  private samples: Map<number, TelemetrySample[]> = new Map();
+  private thresholds: Map<number, TelemetryThresholds> = new Map();
+  private breached: Set<string> = new Set();
+
+  constructor(private readonly maxSamplesPerChip: number = DEFAULT_HISTORY_SIZE) {}
+
+  /**
+   * Record one snapshot.
+   *
+   * @returns Metrics that crossed their threshold with this sample. A metric
+   * is reported once when it goes over and again only after it has dropped
+   * back below its limit.
+   */
+  record(inventory: DeviceInventory, timestamp: number = Date.now()): ThresholdBreach[] {
+    const breaches: ThresholdBreach[] = [];
+
+    for (const chip of inventory.chips) {
+      const sample: TelemetrySample = {
+        timestamp,
+        chipIndex: chip.index,
+        boardType: chip.boardType,
+        temperature: chip.temperatures.asic,
+        power: chip.telemetry.power,
+        aiclk: chip.telemetry.aiclk,
+        voltage: chip.telemetry.voltage,
+      };
+
+      const chipSamples = this.samples.get(chip.index) ?? [];
+      chipSamples.push(sample);
+      if (chipSamples.length > this.maxSamplesPerChip) {
+        chipSamples.splice(0, chipSamples.length - this.maxSamplesPerChip);
+      }
+      this.samples.set(chip.index, chipSamples);
+
+      const thresholds = getChipThresholds(chip);
+      this.thresholds.set(chip.index, thresholds);
+      breaches.push(...this.detectBreaches(sample, thresholds));
+    }
+
+    return breaches;
+  }
+
+  /**
+   * Check a sample against thresholds, tracking which metrics are already over
+   */
+  private detectBreaches(sample: TelemetrySample, thresholds: TelemetryThresholds): ThresholdBreach[] {
+    const breaches: ThresholdBreach[] = [];
+
+    for (const metric of Object.keys(thresholds) as TelemetryMetric[]) {
+      const limit = thresholds[metric];
+      const value = sample[metric];
+      if (limit === undefined || value === null) {
+        continue;
+      }
+
+      const key = `${sample.chipIndex}:${metric}`;
+      if (value > limit) {
+        if (!this.breached.has(key)) {
+          this.breached.add(key);
+          breaches.push({ chipIndex: sample.chipIndex, boardType: sample.boardType, metric, value, limit });
+        }
+      } else {
+        this.breached.delete(key);
+      }
+    }
+
+    return breaches;
+  }
+
+  /**
+   * Samples for one chip, oldest first
+   */
+  getSamples(chipIndex: number): TelemetrySample[] {
+    return [...(this.samples.get(chipIndex) ?? [])];
+  }
+
+  /**
+   * All chip indices with recorded samples
+   */
+  getChipIndices(): number[] {
+    return [...this.samples.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Thresholds last seen for a chip
+   */
+  getThresholds(chipIndex: number): TelemetryThresholds {
+    return { ...(this.thresholds.get(chipIndex) ?? {}) };
+  }
+
+  /**
+   * Total number of samples across all chips
+   */
+  size(): number {
+    let total = 0;
+    for (const chipSamples of this.samples.values()) {
+      total += chipSamples.length;
+    }
+    return total;
+  }
+
+  /**
+   * Remove all samples
+   */
+  clear(): void {
+    this.samples.clear();
+    this.thresholds.clear();
+    this.breached.clear();
+  }
+
+  /**
+   * Export all samples as CSV, ordered by time then chip
+   */
+  toCsv(): string {
+    const header = 'timestamp,chip,board_type,asic_temperature_c,power_w,aiclk_mhz,voltage_v';
+    const rows = this.getChipIndices()
+      .flatMap(chipIndex => this.getSamples(chipIndex))
+      .sort((a, b) => a.timestamp - b.timestamp || a.chipIndex - b.chipIndex)
+      .map(sample => [
+        new Date(sample.timestamp).toISOString(),
+        sample.chipIndex,
+        `"${sample.boardType.replace(/"/g, '""')}"`,
+        sample.temperature ?? '',
+        sample.power ?? '',
+        sample.aiclk ?? '',
+        sample.voltage ?? '',
+      ].join(','));
+
+    return [header, ...rows].join('\n') + '\n';
+  }
+}
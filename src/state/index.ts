@@ -6,3 +6,4 @@
 
 export * from './StateManager';
 export * from './ProgressTracker';
+export * from './TelemetryHistory';
@@ -0,0 +1,60 @@
+/**
+ * Command Execution Types
+ *
+ * Outcome of a shell command run on behalf of a lesson step, as observed
+ * through VS Code shell integration or a child process.
+ */
+
+/**
+ * Result of a command run
+ */
+export type ExecutionStatus =
+  | 'running'  // Started, no exit code yet
+  | 'passed'   // Exited with code 0 (or a long-running server stayed up)
+  | 'failed'   // Exited with a non-zero code
+  | 'unknown'; // Sent to a terminal without shell integration; outcome not observable
+
+/**
+ * How the command was run
+ */
+export type ExecutionRunner =
+  | 'shell-integration'  // Terminal with VS Code shell integration
+  | 'process'            // Child process (non-interactive fallback)
+  | 'send-text';         // Plain terminal.sendText (no observation possible)
+
+/**
+ * A single command run
+ */
+export interface CommandExecution {
+  /** Unique ID for this run */
+  id: string;
+
+  /** Command line that was run */
+  command: string;
+
+  /** Name of the terminal it ran in */
+  terminalName: string;
+
+  runner: ExecutionRunner;
+  status: ExecutionStatus;
+
+  /** Exit code, if known */
+  exitCode?: number;
+
+  /** Start time (ms since epoch) */
+  startedAt: number;
+
+  /** Duration in ms (set once finished) */
+  durationMs?: number;
+
+  /** Last lines of output (ANSI escapes stripped) */
+  outputTail: string[];
+}
+
+/**
+ * Runs a VS Code command started, returned by the commands that run
+ * terminal commands so the caller can follow just those runs
+ */
+export interface CommandRuns {
+  runs: Promise<CommandExecution>[];
+}
@@ -0,0 +1,158 @@
+/**
+ * Device Inventory Types
+ *
+ * Structured model of the Tenstorrent devices reported by `tt-smi -s`.
+ * One entry per chip, so multi-chip boards (N300, T3K, Galaxy) are
+ * represented faithfully instead of being collapsed to the first device.
+ */
+
+import { HardwareType } from './LessonMetadata';
+
+/**
+ * Silicon architecture of a chip
+ */
+export type ChipArchitecture =
+  | 'wormhole'   // n150, n300, T3K, Galaxy
+  | 'blackhole'  // p100, p150
+  | 'unknown';
+
+/**
+ * Temperatures reported for a chip (degrees Celsius)
+ */
+export interface ChipTemperatures {
+  /** ASIC die temperature */
+  asic: number | null;
+
+  /** Voltage regulator temperature (from SMBus telemetry) */
+  vreg: number | null;
+
+  /** Board inlet temperature (from SMBus telemetry) */
+  board: number | null;
+}
+
+/**
+ * Live telemetry values for a chip
+ */
+export interface ChipTelemetry {
+  /** Core voltage (V) */
+  voltage: number | null;
+
+  /** Core current (A) */
+  current: number | null;
+
+  /** Power draw (W) */
+  power: number | null;
+
+  /** AI clock (MHz) */
+  aiclk: number | null;
+
+  /** ARC firmware heartbeat counter (increments while the ARC core is alive) */
+  arcHeartbeat: number | null;
+}
+
+/**
+ * Operating limits reported by firmware
+ */
+export interface ChipLimits {
+  /** Thermal throttle limit (°C) */
+  thermalLimit: number | null;
+
+  /** Thermal design power limit (W) */
+  tdpLimit: number | null;
+
+  /** Thermal design current limit (A) */
+  tdcLimit: number | null;
+
+  /** Minimum core voltage (V) */
+  vddMin: number | null;
+
+  /** Maximum core voltage (V) */
+  vddMax: number | null;
+
+  /** Maximum AI clock (MHz) */
+  asicFmax: number | null;
+}
+
+/**
+ * A single chip as reported by tt-smi
+ */
+export interface ChipInfo {
+  /** Position in tt-smi's device_info array */
+  index: number;
+
+  /** Raw board type string (e.g., "n300 L") */
+  boardType: string;
+
+  /** Normalized board model, if recognized */
+  boardModel: HardwareType | null;
+
+  /** Chip position on a multi-chip board ("L"/"R" on n300), if any */
+  chipPosition: string | null;
+
+  /** Silicon architecture */
+  architecture: ChipArchitecture;
+
+  /** Board serial ID (shared by all chips on the same board) */
+  boardId: string | null;
+
+  /** PCI bus ID (null for remote chips reached over ethernet) */
+  pciBusId: string | null;
+
+  /** Whether the chip is only reachable through another chip (no PCIe link) */
+  isRemote: boolean;
+
+  /** Ethernet mesh coordinates, if reported */
+  coords: string | null;
+
+  /** Firmware bundle version (e.g., "80.10.0.0") */
+  firmwareBundle: string | null;
+
+  /** All individual firmware versions reported (arc_fw, eth_fw, ...) */
+  firmwares: Record<string, string>;
+
+  /** Whether DRAM training succeeded (null if not reported) */
+  dramStatus: boolean | null;
+
+  /** DRAM speed (e.g., "12G") */
+  dramSpeed: string | null;
+
+  /** Temperatures */
+  temperatures: ChipTemperatures;
+
+  /** Live telemetry */
+  telemetry: ChipTelemetry;
+
+  /** Firmware-reported limits */
+  limits: ChipLimits;
+}
+
+/**
+ * Host information reported by tt-smi
+ */
+export interface HostInfo {
+  hostname: string | null;
+  os: string | null;
+  distro: string | null;
+  kernel: string | null;
+  driver: string | null;
+}
+
+/**
+ * Full device inventory parsed from one tt-smi snapshot
+ */
+export interface DeviceInventory {
+  /** All chips, in tt-smi order */
+  chips: ChipInfo[];
+
+  /** Number of distinct physical boards */
+  boardCount: number;
+
+  /** Inferred system topology (null if no chips or unrecognized) */
+  hardwareType: HardwareType | null;
+
+  /** Host information, if reported */
+  host: HostInfo | null;
+
+  /** Snapshot time as reported by tt-smi, if any */
+  snapshotTime: string | null;
+}
@@ -32,6 +32,9 @@ export interface FilterOptions {
   /** Show only validated lessons */
   validatedOnly?: boolean;
 
+  /** Show only lessons validated on the detected hardware */
+  validatedOnDetectedHardware?: boolean;
+
   /** Show only lessons with prerequisites met */
   prerequisitesMet?: boolean;
 
@@ -39,6 +42,13 @@ export interface FilterOptions {
   minTTMetalVersion?: string;
 }
 
+/**
+ * Which lessons the tree shows relative to detected hardware
+ */
+export type HardwareViewMode =
+  | 'mine'  // Only lessons supported on the detected hardware
+  | 'all';  // Every lesson, with unsupported ones greyed out
+
 /**
  * Sort options for lesson display
  */
@@ -109,4 +119,10 @@ export interface SearchResult {
 
   /** Text snippets showing matches */
   highlights?: string[];
+
+  /** Anchor of the heading nearest the best body match (e.g., "run-the-command") */
+  anchor?: string;
+
+  /** Text of that heading */
+  heading?: string;
 }
@@ -26,14 +26,23 @@ export type LessonStatus =
   | 'blocked';   // Known issues preventing use
 
 /**
- * Lesson category for organization
+ * Built-in lesson categories
  */
-export type LessonCategory =
+export type BuiltinLessonCategory =
   | 'welcome'           // Welcome page, FAQ, getting started resources
   | 'first-inference'   // Setup, first model, basic inference
   | 'serving'           // Production deployment, serving infrastructure
+  | 'compilers'         // TT-Forge, TT-XLA and other compiler stacks
+  | 'applications'      // End-to-end applications built on the stack
+  | 'advanced'          // Low-level programming, Metalium, bounties
   | 'ecosystem';        // Advanced topics, tools, community
 
+/**
+ * Lesson category for organization: a built-in category, or one defined by
+ * an external lesson pack
+ */
+export type LessonCategory = BuiltinLessonCategory | (string & {});
+
 /**
  * Prerequisite lesson requirement
  */
@@ -119,6 +128,10 @@ export interface LessonMetadata {
 
   /** Whether to expand this lesson's content by default */
   expandByDefault?: boolean;
+
+  // Lesson packs
+  /** Name of the external lesson pack this lesson came from (unset for built-in lessons) */
+  source?: string;
 }
 
 /**
@@ -148,6 +161,9 @@ export interface LessonRegistry {
   /** Registry format version */
   version: string;
 
+  /** Display name (external lesson packs; shown as the lesson source) */
+  name?: string;
+
   /** Category definitions */
   categories: CategoryDefinition[];
 
@@ -26,6 +26,12 @@ export interface ProgressState {
   /** List of command IDs that have been executed */
   completedCommands: string[];
 
+  /** Step keys (command buttons, runnable blocks) whose last run succeeded */
+  completedSteps?: string[];
+
+  /** Step keys whose last run failed */
+  failedSteps?: string[];
+
   /** Timestamp of when lesson was first opened (ms since epoch) */
   firstAccessed?: number;
 
@@ -38,8 +44,25 @@ export interface ProgressState {
   /** Number of times user has opened this lesson */
   viewCount: number;
 
-  /** Optional user notes */
+  /** Optional user notes (markdown) */
   notes?: string;
+
+  /** Notes pinned to lesson sections, by heading anchor */
+  sectionNotes?: Record<string, SectionNote>;
+}
+
+/**
+ * A note pinned to a lesson section
+ */
+export interface SectionNote {
+  /** Heading text when the note was saved (anchors alone aren't readable) */
+  heading: string;
+
+  /** Note text (markdown) */
+  text: string;
+
+  /** Last edit (ms since epoch) */
+  updatedAt: number;
 }
 
 /**
@@ -62,6 +85,21 @@ export interface GlobalProgressState {
   totalTimeSpent: number;
 }
 
+/**
+ * Progress log event. Progress is stored as an append-only log of these
+ * events; lesson progress and totals are derived from it.
+ */
+export type ProgressEvent =
+  | { type: 'opened'; lessonId: string; at: number }
+  | { type: 'session'; lessonId: string; at: number; seconds: number }
+  | { type: 'command-run'; lessonId: string; at: number; commandId: string }
+  | { type: 'completed'; lessonId: string; at: number }
+  | { type: 'step-result'; lessonId: string; at: number; stepKey: string; passed: boolean }
+  | { type: 'note'; lessonId: string; at: number; text: string; section?: { anchor: string; heading: string } }
+  | { type: 'reset'; lessonId?: string; at: number }               // No lessonId: all lessons
+  | { type: 'imported'; at: number; lessons: Record<string, ProgressState>; removed?: string[] } // Lessons an import changed
+  | { type: 'snapshot'; at: number; progress: GlobalProgressState }; // Legacy progress or compacted history
+
 /**
  * Progress change event
  */
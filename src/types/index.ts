@@ -12,3 +12,9 @@ export * from './ProgressState';
 
 // Filtering and search
 export * from './FilterOptions';
+
+// Device inventory (tt-smi)
+export * from './DeviceInventory';
+
+// Command execution (terminal steps)
+export * from './CommandExecution';
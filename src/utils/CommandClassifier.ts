@@ -0,0 +1,70 @@
+/**
+ * Command Classifier
+ *
+ * Decides whether a lesson command can run outside a terminal (as a child
+ * process) when VS Code shell integration isn't available. Deliberately
+ * conservative: a child process doesn't see the terminal's activated venv,
+ * `cd`s or exports, so only read-only commands whose result doesn't depend
+ * on that state qualify (system information, tt-smi snapshots), optionally
+ * piped into text filters. Anything that installs, writes files, reads
+ * relative paths, expands variables, prompts or keeps running stays in the
+ * terminal.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+/**
+ * Read-only programs whose output doesn't depend on the venv, working
+ * directory or exported variables
+ */
+const READ_ONLY_PROGRAMS = new Set([
+  'df', 'free', 'hostname', 'lsb_release', 'lscpu', 'lspci', 'nproc', 'uname', 'tt-smi',
+]);
+
+/**
+ * Text filters, allowed after a pipe (they only read their input)
+ */
+const FILTER_PROGRAMS = new Set(['grep', 'head', 'tail', 'wc', 'sort', 'jq']);
+
+/**
+ * Whether one stage of a pipeline can run as a child process
+ *
+ * @param afterPipe - The stage reads the previous stage's output
+ */
+function isReadOnlyStage(stage: string, afterPipe: boolean): boolean {
+  const [program, ...args] = stage.trim().split(/\s+/);
+
+  if (afterPipe && FILTER_PROGRAMS.has(program)) {
+    // A followed log never ends
+    return !(program === 'tail' && args.some(arg => /^(-[a-zA-Z]*[fF]|--follow)/.test(arg)));
+  }
+  if (!READ_ONLY_PROGRAMS.has(program)) {
+    return false;
+  }
+
+  // Plain tt-smi is a full-screen TUI; snapshots and listings are one-shot
+  return program !== 'tt-smi' || args.some(arg => ['-s', '--snapshot', '-ls', '--list'].includes(arg));
+}
+
+/**
+ * Whether a command line can safely run as a child process.
+ * Supports `&&`, `||`, `;` and pipes between read-only commands; comments
+ * and blank lines are ignored. Output redirection, variables, command
+ * substitution, sudo and background jobs keep it in the terminal.
+ */
+export function isNonInteractiveCommand(commandLine: string): boolean {
+  const lines = commandLine
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+  if (lines.length === 0 || /\bsudo\b|[<>]|\$|`|&\s*$/.test(lines.join('\n'))) {
+    return false;
+  }
+
+  return lines.every(line =>
+    line
+      .split(/&&|\|\||;/)
+      .every(command => command.split('|').every((stage, index) => isReadOnlyStage(stage, index > 0)))
+  );
+}
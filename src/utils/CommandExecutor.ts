@@ -0,0 +1,351 @@
+/**
+ * Command Executor
+ *
+ * Runs lesson commands in terminals and observes their outcome (exit code,
+ * duration, output tail) so lesson steps can be marked passed or failed.
+ *
+ * Runners, in order of preference:
+ * 1. VS Code shell integration (terminal.shellIntegration.executeCommand)
+ * 2. A child process, for read-only commands that don't depend on the
+ *    terminal's state when the terminal has no shell integration (output
+ *    goes to the "Tenstorrent Commands" channel). It gets the environment
+ *    and working directory the terminal was created with.
+ * 3. Plain sendText - the command runs, but its outcome is 'unknown'
+ *
+ * The VSCode window is injected (only types are imported from vscode) so
+ * it can be unit tested.
+ */
+
+import type * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { CommandExecution, CommandRuns } from '../types';
+import { OutputTail } from './OutputTail';
+import { isNonInteractiveCommand } from './CommandClassifier';
+
+/**
+ * How long to wait for a new terminal's shell integration (ms)
+ */
+export const SHELL_INTEGRATION_TIMEOUT = 3000;
+
+/**
+ * How long a long-running command (server) must stay up to count as passed (ms)
+ */
+export const LONG_RUNNING_GRACE_PERIOD = 10000;
+
+/**
+ * How long to wait for a command that isn't long-running to exit before
+ * giving up on its outcome (ms). Covers REPLs, TUIs and prompts that never
+ * return; long builds and downloads finish well within it.
+ */
+export const EXIT_TIMEOUT = 2 * 60 * 60 * 1000;
+
+/**
+ * Waits used by the executor (ms); tests shorten them
+ */
+export interface ExecutorTimeouts {
+  shellIntegration: number;
+  longRunningGracePeriod: number;
+  exit: number;
+}
+
+/**
+ * The parts of `vscode.window` the executor uses
+ */
+export type ExecutorWindow = Pick<
+  typeof vscode.window,
+  'createOutputChannel' | 'onDidChangeTerminalShellIntegration' | 'onDidEndTerminalShellExecution' | 'onDidCloseTerminal'
+>;
+
+/**
+ * Options for a single run
+ */
+export interface RunOptions {
+  /** Command starts a server that keeps running (passes once it stays up) */
+  longRunning?: boolean;
+}
+
+/**
+ * Whether a VS Code command's result is the runs it started
+ */
+export function isCommandRuns(value: unknown): value is CommandRuns {
+  return typeof value === 'object' && value !== null && Array.isArray((value as Partial<CommandRuns>).runs);
+}
+
+/**
+ * Runs terminal commands and records how they went
+ */
+export class CommandExecutor implements vscode.Disposable {
+  private readonly output: vscode.OutputChannel;
+  private readonly startListeners = new Set<(execution: CommandExecution) => unknown>();
+  private readonly finishListeners = new Set<(execution: CommandExecution) => unknown>();
+  /** Ends the waits (and clears the timers) of runs in progress, on dispose */
+  private readonly pending = new Set<() => void>();
+  private readonly timeouts: ExecutorTimeouts;
+  private disposed = false;
+  private nextId = 1;
+
+  /**
+   * @param window - `vscode.window` (injected by tests)
+   * @param timeouts - Overrides for the default waits
+   */
+  constructor(private readonly window: ExecutorWindow, timeouts: Partial<ExecutorTimeouts> = {}) {
+    this.output = window.createOutputChannel('Tenstorrent Commands');
+    this.timeouts = {
+      shellIntegration: SHELL_INTEGRATION_TIMEOUT,
+      longRunningGracePeriod: LONG_RUNNING_GRACE_PERIOD,
+      exit: EXIT_TIMEOUT,
+      ...timeouts,
+    };
+  }
+
+  /**
+   * Fires when a run's runner has been picked, just before the command runs
+   */
+  readonly onDidStart: vscode.Event<CommandExecution> = (listener, thisArgs?, disposables?) =>
+    this.listen(this.startListeners, listener, thisArgs, disposables);
+
+  /**
+   * Fires when a run finishes (or a long-running command passes its grace period)
+   */
+  readonly onDidFinish: vscode.Event<CommandExecution> = (listener, thisArgs?, disposables?) =>
+    this.listen(this.finishListeners, listener, thisArgs, disposables);
+
+  private listen(
+    listeners: Set<(execution: CommandExecution) => unknown>,
+    listener: (execution: CommandExecution) => unknown,
+    thisArgs?: unknown,
+    disposables?: vscode.Disposable[]
+  ): vscode.Disposable {
+    const bound = (execution: CommandExecution) => listener.call(thisArgs, execution);
+    listeners.add(bound);
+    const disposable = { dispose: () => listeners.delete(bound) };
+    disposables?.push(disposable);
+    return disposable;
+  }
+
+  /**
+   * Run a command in a terminal and resolve with its outcome.
+   * The terminal is shown right away (child process output goes to the
+   * output channel, which is revealed when that runner is picked).
+   */
+  run(terminal: vscode.Terminal, command: string, options: RunOptions = {}): Promise<CommandExecution> {
+    const execution: CommandExecution = {
+      id: `exec-${this.nextId++}`,
+      command,
+      terminalName: terminal.name,
+      runner: 'send-text',
+      status: 'running',
+      startedAt: Date.now(),
+      outputTail: [],
+    };
+
+    terminal.show(false);
+    return this.execute(terminal, execution, options).then(() => {
+      if (!this.disposed) {
+        this.log(execution);
+      }
+      for (const listener of this.finishListeners) {
+        listener(execution);
+      }
+      return execution;
+    });
+  }
+
+  /**
+   * Pick a runner and fill in the execution's outcome
+   */
+  private async execute(terminal: vscode.Terminal, execution: CommandExecution, options: RunOptions): Promise<void> {
+    const shellIntegration = await this.waitForShellIntegration(terminal);
+    if (this.disposed) {
+      execution.status = 'unknown';
+      return;
+    }
+
+    const started = () => {
+      for (const listener of this.startListeners) {
+        listener(execution);
+      }
+    };
+
+    if (shellIntegration) {
+      execution.runner = 'shell-integration';
+      started();
+      await this.runWithShellIntegration(terminal, shellIntegration, execution, options);
+    } else if (!options.longRunning && isNonInteractiveCommand(execution.command)) {
+      this.output.show(true);
+      execution.runner = 'process';
+      started();
+      await this.runAsProcess(terminal, execution);
+    } else {
+      started();
+      terminal.sendText(execution.command);
+      execution.status = 'unknown';
+    }
+
+    if (execution.runner !== 'send-text') {
+      execution.durationMs = Date.now() - execution.startedAt;
+    }
+  }
+
+  /**
+   * Resolve with the terminal's shell integration once available (undefined on timeout)
+   */
+  private waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+    if (terminal.shellIntegration) {
+      return Promise.resolve(terminal.shellIntegration);
+    }
+
+    return new Promise(resolve => {
+      const done = (shellIntegration?: vscode.TerminalShellIntegration) => {
+        clearTimeout(timer);
+        listener.dispose();
+        this.pending.delete(done);
+        resolve(shellIntegration);
+      };
+
+      const timer = setTimeout(done, this.timeouts.shellIntegration);
+      const listener = this.window.onDidChangeTerminalShellIntegration(event => {
+        if (event.terminal === terminal) {
+          done(event.shellIntegration);
+        }
+      });
+      this.pending.add(done);
+    });
+  }
+
+  /**
+   * Run through shell integration, streaming output into the tail.
+   * The outcome is 'unknown' if the terminal closes (or the executor is
+   * disposed) first, or if a command that isn't long-running hasn't exited
+   * within the exit timeout.
+   */
+  private runWithShellIntegration(
+    terminal: vscode.Terminal,
+    shellIntegration: vscode.TerminalShellIntegration,
+    execution: CommandExecution,
+    options: RunOptions
+  ): Promise<void> {
+    const tail = new OutputTail();
+
+    return new Promise(resolve => {
+      let finished = false;
+
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(timer);
+        endListener.dispose();
+        closeListener.dispose();
+        this.pending.delete(abandon);
+        execution.outputTail = tail.getLines();
+        resolve();
+      };
+
+      const endListener = this.window.onDidEndTerminalShellExecution(event => {
+        if (event.execution === shellExecution) {
+          execution.exitCode = event.exitCode;
+          execution.status = event.exitCode === undefined ? 'unknown' : event.exitCode === 0 ? 'passed' : 'failed';
+          // Let the output stream drain before taking the tail
+          setTimeout(finish, 0);
+        }
+      });
+
+      const abandon = () => {
+        if (execution.status === 'running') {
+          execution.status = 'unknown';
+        }
+        finish();
+      };
+      this.pending.add(abandon);
+
+      const closeListener = this.window.onDidCloseTerminal(closed => {
+        if (closed === terminal && execution.status === 'running') {
+          abandon();
+        }
+      });
+
+      const shellExecution = shellIntegration.executeCommand(execution.command);
+
+      void (async () => {
+        for await (const chunk of shellExecution.read()) {
+          tail.append(chunk);
+        }
+      })();
+
+      // A server that is still up after the grace period has started
+      // successfully; anything else that hasn't exited by the timeout is
+      // waiting on input or running a TUI
+      const timer = options.longRunning
+        ? setTimeout(() => {
+          execution.status = 'passed';
+          finish();
+        }, this.timeouts.longRunningGracePeriod)
+        : setTimeout(() => {
+          execution.status = 'unknown';
+          finish();
+        }, this.timeouts.exit);
+    });
+  }
+
+  /**
+   * Run as a child process with the environment and working directory the
+   * terminal was created with (its profile), echoing output to the channel
+   */
+  private runAsProcess(terminal: vscode.Terminal, execution: CommandExecution): Promise<void> {
+    const tail = new OutputTail();
+    this.output.appendLine(`$ ${execution.command}`);
+
+    const options = terminal.creationOptions as Readonly<vscode.TerminalOptions>;
+    const terminalEnv = Object.entries(options.env ?? {}).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    );
+
+    return new Promise(resolve => {
+      const child = spawn(execution.command, {
+        shell: true,
+        cwd: typeof options.cwd === 'string' ? options.cwd : options.cwd?.fsPath,
+        env: { ...process.env, ...Object.fromEntries(terminalEnv) },
+      });
+
+      const onData = (data: Buffer) => {
+        const text = data.toString();
+        tail.append(text);
+        this.output.append(text);
+      };
+      child.stdout.on('data', onData);
+      child.stderr.on('data', onData);
+
+      child.on('error', error => {
+        tail.append(`${error.message}\n`);
+      });
+
+      child.on('close', code => {
+        execution.exitCode = code ?? undefined;
+        execution.status = code === 0 ? 'passed' : 'failed';
+        execution.outputTail = tail.getLines();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Record a finished run in the output channel
+   */
+  private log(execution: CommandExecution): void {
+    const exit = execution.exitCode !== undefined ? `exit ${execution.exitCode}` : execution.status;
+    const duration = execution.durationMs !== undefined ? `, ${(execution.durationMs / 1000).toFixed(1)}s` : '';
+    this.output.appendLine(`[${execution.terminalName}] ${execution.command.split('\n')[0]} → ${exit}${duration} (${execution.runner})`);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    for (const end of [...this.pending]) {
+      end();
+    }
+    this.startListeners.clear();
+    this.finishListeners.clear();
+    this.output.dispose();
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Command Template Engine
+ *
+ * Expands `{{name}}` placeholders in terminal command templates. Every
+ * placeholder must be declared with a type; values are validated and
+ * shell-quoted by their type, so a path with spaces or a token with quotes
+ * can't break (or inject into) the command.
+ *
+ * Values come from, in order: values passed by the caller, defaults
+ * resolved from settings/state, then the declaration's own default.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { MODEL_REGISTRY } from '../config/modelRegistry';
+import { HardwareType } from '../types';
+
+/**
+ * Built-in variable types
+ */
+export type TemplateVariableType = 'path' | 'hardware' | 'modelKey' | 'port' | 'secret';
+
+/**
+ * Declaration of a template variable
+ */
+export interface TemplateVariable {
+  type: TemplateVariableType;
+
+  /** What the value is (shown in errors) */
+  description: string;
+
+  /** Used when no value is passed or resolved from settings/state */
+  default?: string;
+
+  /** Ask the user for the value with this prompt when none is passed */
+  prompt?: string;
+
+  /** Example value shown in the prompt */
+  placeHolder?: string;
+}
+
+/**
+ * Validation and quoting for one variable type
+ */
+export interface VariableTypeHandler {
+  /** Why the value is invalid, or undefined if it's valid */
+  validate(value: string): string | undefined;
+
+  /** Shell-safe text inserted into the command */
+  render(value: string): string;
+
+  /** Hide the value in previews */
+  secret?: boolean;
+}
+
+/**
+ * A template and its variable declarations (CommandTemplate has both)
+ */
+export interface TemplateSource {
+  template: string;
+  variables?: Record<string, TemplateVariable>;
+}
+
+/**
+ * Options for expanding a template
+ */
+export interface ExpandOptions {
+  /** Values resolved from settings/state, used for variables not passed explicitly */
+  defaults?: Record<string, string | undefined>;
+
+  /** Replace built-in variable types (validation/quoting) */
+  types?: Partial<Record<TemplateVariableType, VariableTypeHandler>>;
+
+  /** Show secrets as SECRET_MASK and missing values as `<name>` instead of failing */
+  preview?: boolean;
+}
+
+/**
+ * Error thrown when a template can't be expanded
+ */
+export class TemplateError extends Error {
+  constructor(message: string, public readonly variables: string[] = []) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Shown in place of secrets in previews
+ */
+export const SECRET_MASK = '••••••••';
+
+/**
+ * Hardware accepted by `hardware` variables
+ */
+const TEMPLATE_HARDWARE: HardwareType[] = ['n150', 'n300', 't3k', 'p100', 'p150', 'galaxy'];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Quote a value for a POSIX shell (left bare when that's already safe)
+ */
+export function shellQuote(value: string): string {
+  if (value === '') {
+    return "''";
+  }
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a path, keeping a leading `~/` unquoted so the shell still expands it
+ */
+export function quotePath(value: string): string {
+  if (value === '~') {
+    return value;
+  }
+  if (value.startsWith('~/')) {
+    const rest = value.slice(2);
+    return rest ? `~/${shellQuote(rest)}` : '~/';
+  }
+  return shellQuote(value);
+}
+
+/**
+ * Reason a value can't be used as a single-line shell argument
+ */
+function validateSingleLine(value: string): string | undefined {
+  return /[\0\r\n]/.test(value) ? 'must be a single line' : undefined;
+}
+
+/**
+ * Built-in variable types
+ */
+export const VARIABLE_TYPES: Record<TemplateVariableType, VariableTypeHandler> = {
+  path: {
+    validate: validateSingleLine,
+    render: quotePath,
+  },
+  hardware: {
+    validate: value => TEMPLATE_HARDWARE.includes(value.toLowerCase() as HardwareType)
+      ? undefined
+      : `must be one of ${TEMPLATE_HARDWARE.join(', ')}`,
+    render: value => value.toLowerCase(),
+  },
+  modelKey: {
+    validate: value => Object.keys(MODEL_REGISTRY).includes(value)
+      ? undefined
+      : `unknown model (available: ${Object.keys(MODEL_REGISTRY).join(', ')})`,
+    render: value => shellQuote(MODEL_REGISTRY[value].huggingfaceId),
+  },
+  port: {
+    validate: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 65535
+      ? undefined
+      : 'must be a number from 1 to 65535',
+    render: value => String(Number(value)),
+  },
+  secret: {
+    validate: validateSingleLine,
+    render: shellQuote,
+    secret: true,
+  },
+};
+
+/**
+ * Names of the placeholders in a template, in order of first use
+ */
+export function templatePlaceholders(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+/**
+ * Expand a template
+ *
+ * @param source - Template and variable declarations
+ * @param values - Values passed by the caller (take precedence over defaults)
+ * @param options - Defaults from settings/state, type overrides, preview mode
+ * @throws TemplateError for undeclared placeholders, missing values (unless
+ *   previewing) or invalid values
+ */
+export function expandTemplate(
+  source: TemplateSource,
+  values: Record<string, string | undefined> = {},
+  options: ExpandOptions = {}
+): string {
+  const declarations = source.variables ?? {};
+  const types = { ...VARIABLE_TYPES, ...options.types };
+
+  const undeclared = templatePlaceholders(source.template).filter(name => !declarations[name]);
+  if (undeclared.length > 0) {
+    throw new TemplateError(`Template uses undeclared variables: ${undeclared.join(', ')}`, undeclared);
+  }
+
+  const rendered: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const [name, declaration] of Object.entries(declarations)) {
+    const value = [values[name], options.defaults?.[name], declaration.default]
+      .find(candidate => candidate !== undefined && candidate !== '');
+    if (value === undefined) {
+      missing.push(name);
+      rendered[name] = `<${name}>`;
+      continue;
+    }
+
+    const handler = types[declaration.type];
+    if (!handler) {
+      throw new TemplateError(`Unknown type '${declaration.type}' for ${name}`, [name]);
+    }
+    const problem = handler.validate(value);
+    if (problem) {
+      throw new TemplateError(`Invalid ${declaration.description} (${name}): ${problem}`, [name]);
+    }
+    rendered[name] = options.preview && handler.secret ? SECRET_MASK : handler.render(value);
+  }
+
+  if (missing.length > 0 && !options.preview) {
+    const described = missing.map(name => `${declarations[name].description} (${name})`);
+    throw new TemplateError(`Missing value for ${described.join(', ')}`, missing);
+  }
+
+  return source.template.replace(PLACEHOLDER, (_, name: string) => rendered[name]);
+}
@@ -0,0 +1,75 @@
+/**
+ * Content Watcher
+ *
+ * Watches the extension's content/ directory (lesson markdown and
+ * lesson-registry.json) and calls back once per burst of changes, so
+ * content authors see edits without reloading the window.
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Delay after the last change before reloading (ms)
+ */
+export const CONTENT_RELOAD_DELAY = 300;
+
+/**
+ * Debounced watcher for lesson content
+ */
+export class ContentWatcher implements vscode.Disposable {
+  private watcher: vscode.FileSystemWatcher;
+  private timer: NodeJS.Timeout | undefined;
+  private changed = new Set<string>();
+  private running: Promise<void> = Promise.resolve();
+
+  /**
+   * @param contentDir - Absolute path of the content directory
+   * @param onChange - Called with the changed file paths after changes settle
+   */
+  constructor(
+    contentDir: string,
+    private readonly onChange: (changedFiles: string[]) => Promise<void>,
+    private readonly delay: number = CONTENT_RELOAD_DELAY
+  ) {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(contentDir), '**/*.{md,json}')
+    );
+
+    const schedule = (uri: vscode.Uri) => this.schedule(uri.fsPath);
+    this.watcher.onDidChange(schedule);
+    this.watcher.onDidCreate(schedule);
+    this.watcher.onDidDelete(schedule);
+  }
+
+  /**
+   * Queue a changed file and restart the debounce timer
+   */
+  private schedule(filePath: string): void {
+    this.changed.add(filePath);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.delay);
+  }
+
+  /**
+   * Run the callback for queued changes (one reload at a time)
+   */
+  private flush(): void {
+    this.timer = undefined;
+    const files = [...this.changed];
+    this.changed.clear();
+
+    this.running = this.running
+      .then(() => this.onChange(files))
+      .catch(error => console.error('Failed to reload lesson content:', error));
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.watcher.dispose();
+  }
+}
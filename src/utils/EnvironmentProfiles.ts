@@ -0,0 +1,221 @@
+/**
+ * Environment Profiles
+ *
+ * Named environments (a venv, environment variables and a working
+ * directory) that context terminals are created with, so commands don't
+ * have to activate venvs and export TT_METAL_* variables themselves.
+ * Built-in profiles can be overridden and new ones added with the
+ * `tenstorrent.environmentProfiles` setting.
+ *
+ * Values can use the toolchain path variables, e.g. {{ttMetalPath}}.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandHome } from './ToolchainPaths';
+
+/**
+ * A named terminal environment
+ */
+export interface EnvironmentProfile {
+  description?: string;
+
+  /** Virtual environment directory, activated by putting its bin/ first on PATH */
+  venv?: string;
+
+  /** Environment variables set in the terminal (PYTHONPATH is put in front of the existing one) */
+  env?: Record<string, string>;
+
+  /** Directory the terminal starts in */
+  cwd?: string;
+}
+
+export type EnvironmentProfiles = Record<string, EnvironmentProfile>;
+
+/**
+ * Profiles available without any configuration
+ */
+export const BUILT_IN_PROFILES: EnvironmentProfiles = {
+  'metal-dev': {
+    description: 'tt-metal source build',
+    env: { TT_METAL_HOME: '{{ttMetalPath}}', PYTHONPATH: '{{ttMetalPath}}' },
+    cwd: '{{ttMetalPath}}',
+  },
+  'vllm-n150': {
+    description: 'TT vLLM on an N150',
+    venv: '{{vllmVenvPath}}',
+    env: { TT_METAL_HOME: '{{ttMetalPath}}', PYTHONPATH: '{{ttMetalPath}}', MESH_DEVICE: 'N150' },
+    cwd: '{{vllmPath}}',
+  },
+  'vllm-n300': {
+    description: 'TT vLLM on an N300',
+    venv: '{{vllmVenvPath}}',
+    env: { TT_METAL_HOME: '{{ttMetalPath}}', PYTHONPATH: '{{ttMetalPath}}', MESH_DEVICE: 'N300' },
+    cwd: '{{vllmPath}}',
+  },
+  'vllm-t3k': {
+    description: 'TT vLLM on a T3K',
+    venv: '{{vllmVenvPath}}',
+    env: { TT_METAL_HOME: '{{ttMetalPath}}', PYTHONPATH: '{{ttMetalPath}}', MESH_DEVICE: 'T3K' },
+    cwd: '{{vllmPath}}',
+  },
+  'vllm-p100': {
+    description: 'TT vLLM on a P100 (Blackhole)',
+    venv: '{{vllmVenvPath}}',
+    env: { TT_METAL_HOME: '{{ttMetalPath}}', PYTHONPATH: '{{ttMetalPath}}', MESH_DEVICE: 'P100', TT_METAL_ARCH_NAME: 'blackhole' },
+    cwd: '{{vllmPath}}',
+  },
+  'forge-wheel': {
+    description: 'TT-Forge installed from wheels',
+    venv: '{{forgeVenvPath}}',
+  },
+  'xla': {
+    description: 'TT-XLA / JAX',
+    venv: '{{xlaVenvPath}}',
+  },
+};
+
+/**
+ * Environment a terminal is created with
+ */
+export interface ResolvedEnvironment {
+  env: Record<string, string>;
+  cwd?: string;
+
+  /** Parts of the profile left out, e.g. a venv that doesn't exist yet */
+  skipped: string[];
+}
+
+/**
+ * Inputs to resolveEnvironment besides the profile
+ */
+export interface ResolveEnvironmentOptions {
+  /** Values for {{variables}} (toolchain path variables) */
+  values: Record<string, string>;
+
+  /** Whether an absolute path exists (defaults to checking the file system) */
+  exists?: (absolutePath: string) => boolean;
+
+  /** PATH the venv's bin/ is put in front of */
+  basePath?: string;
+
+  /** PYTHONPATH the profile's PYTHONPATH is put in front of */
+  basePythonPath?: string;
+
+  homeDir?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Built-in profiles with the configured ones added (same name replaces the built-in)
+ */
+export function mergeProfiles(configured: EnvironmentProfiles = {}): EnvironmentProfiles {
+  return { ...BUILT_IN_PROFILES, ...configured };
+}
+
+/**
+ * Replace {{variables}} and a leading ~ (the terminal's environment isn't
+ * expanded by a shell)
+ *
+ * @throws Error if a variable has no value
+ */
+function substitute(value: string, values: Record<string, string>, homeDir?: string): string {
+  const replaced = value.replace(PLACEHOLDER, (_, name: string) => {
+    if (values[name] === undefined) {
+      throw new Error(`Unknown variable {{${name}}}`);
+    }
+    return expandHome(values[name], homeDir);
+  });
+  return expandHome(replaced, homeDir);
+}
+
+/**
+ * Resolve a profile to the environment and working directory of a new
+ * terminal. A venv or working directory that doesn't exist is skipped
+ * (the terminal would fail to start in a missing directory), as are
+ * variables using unknown {{variables}}.
+ */
+export function resolveEnvironment(profile: EnvironmentProfile, options: ResolveEnvironmentOptions): ResolvedEnvironment {
+  const { values, exists = fs.existsSync, homeDir } = options;
+  const resolved: ResolvedEnvironment = { env: {}, skipped: [] };
+
+  const resolve = (label: string, value: string): string | undefined => {
+    try {
+      return substitute(value, values, homeDir);
+    } catch (error) {
+      resolved.skipped.push(`${label} (${(error as Error).message})`);
+      return undefined;
+    }
+  };
+
+  for (const [name, value] of Object.entries(profile.env ?? {})) {
+    const resolvedValue = resolve(name, value);
+    if (resolvedValue !== undefined) {
+      resolved.env[name] = name === 'PYTHONPATH'
+        ? [resolvedValue, options.basePythonPath].filter(Boolean).join(path.delimiter)
+        : resolvedValue;
+    }
+  }
+
+  const venv = profile.venv ? resolve('venv', profile.venv) : undefined;
+  if (venv && exists(path.join(venv, 'bin'))) {
+    resolved.env.VIRTUAL_ENV = venv;
+    resolved.env.PATH = [path.join(venv, 'bin'), options.basePath].filter(Boolean).join(path.delimiter);
+  } else if (venv) {
+    resolved.skipped.push(`venv ${venv} (not found)`);
+  }
+
+  const cwd = profile.cwd ? resolve('working directory', profile.cwd) : undefined;
+  if (cwd && exists(cwd)) {
+    resolved.cwd = cwd;
+  } else if (cwd) {
+    resolved.skipped.push(`working directory ${cwd} (not found)`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Profile a terminal was created with, and the parts of it that were skipped
+ */
+export interface TerminalEnvironment {
+  profile?: string;
+  skipped: string[];
+}
+
+/**
+ * Whether a terminal created as `created` has the environment of `profile`
+ * as it resolves now (`skipped` are the parts still unavailable): it was
+ * created with that profile, and nothing it skipped has become available
+ * since (e.g. a venv created by an install command). Commands that need a
+ * profile run in a new terminal otherwise.
+ */
+export function hasProfileEnvironment(
+  created: TerminalEnvironment | undefined,
+  profile: string | undefined,
+  skipped: string[]
+): boolean {
+  return created !== undefined && created.profile === profile && created.skipped.every(part => skipped.includes(part));
+}
+
+/**
+ * One-line summary of a profile for quick picks
+ */
+export function describeProfile(profile: EnvironmentProfile): string {
+  const parts = [
+    ...(profile.venv ? [`venv ${profile.venv}`] : []),
+    ...Object.entries(profile.env ?? {}).map(([name, value]) => `${name}=${value}`),
+    ...(profile.cwd ? [`cwd ${profile.cwd}`] : []),
+  ];
+  return parts.length > 0 ? parts.join(' · ') : 'No changes to the environment';
+}
+
+/**
+ * Whether a name can be used as an environment variable
+ */
+export function isValidVariableName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
@@ -0,0 +1,67 @@
+/**
+ * Hardware Compatibility
+ *
+ * Classifies lessons against the user's detected hardware so the tree can
+ * hide, grey out or badge lessons that don't match.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { HardwareType, HardwareViewMode, LessonMetadata } from '../types';
+import { formatHardwareType } from './TtSmiParser';
+
+/**
+ * How a lesson relates to a specific hardware type
+ */
+export type HardwareCompatibility =
+  | 'validated'    // Supported and validated on this hardware
+  | 'unvalidated'  // Supported, but not validated on this hardware yet
+  | 'unsupported'; // Not supported on this hardware
+
+/**
+ * Classify a lesson for one hardware type
+ */
+export function getHardwareCompatibility(
+  lesson: LessonMetadata,
+  hardware: HardwareType
+): HardwareCompatibility {
+  if (!lesson.supportedHardware.includes(hardware)) {
+    return 'unsupported';
+  }
+  return lesson.validatedOn.includes(hardware) ? 'validated' : 'unvalidated';
+}
+
+/**
+ * Short explanation shown next to a lesson, or null when fully validated
+ * (e.g., "not validated on your N300")
+ */
+export function describeHardwareCompatibility(
+  lesson: LessonMetadata,
+  hardware: HardwareType
+): string | null {
+  const name = formatHardwareType(hardware);
+
+  switch (getHardwareCompatibility(lesson, hardware)) {
+    case 'unsupported':
+      return `not supported on your ${name}`;
+    case 'unvalidated':
+      return `not validated on your ${name}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Filter lessons for the given view mode. Without detected hardware,
+ * nothing is hidden.
+ */
+export function filterByDetectedHardware(
+  lessons: LessonMetadata[],
+  hardware: HardwareType | undefined,
+  mode: HardwareViewMode
+): LessonMetadata[] {
+  if (!hardware || mode === 'all') {
+    return lessons;
+  }
+  return lessons.filter(lesson => getHardwareCompatibility(lesson, hardware) !== 'unsupported');
+}
@@ -0,0 +1,174 @@
+/**
+ * Lesson Graph
+ *
+ * Builds the lesson dependency graph from `prerequisites` and
+ * `previousLesson`/`nextLesson`, lays it out in category columns, and finds
+ * the shortest path from the user's completed lessons to a target lesson.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { CategoryDefinition, LessonMetadata } from '../types';
+
+/**
+ * Why one lesson leads to another
+ */
+export type LessonEdgeKind =
+  | 'required'     // Required prerequisite
+  | 'recommended'  // Optional prerequisite
+  | 'sequence';    // previousLesson → nextLesson
+
+/**
+ * Directed edge: `from` should be done before `to`
+ */
+export interface LessonEdge {
+  from: string;
+  to: string;
+  kind: LessonEdgeKind;
+}
+
+/**
+ * Lesson node with its layout position (column = category, row = order)
+ */
+export interface LessonNode {
+  id: string;
+  title: string;
+  category: string;
+  column: number;
+  row: number;
+}
+
+/**
+ * Laid-out lesson graph
+ */
+export interface LessonGraph {
+  nodes: LessonNode[];
+  edges: LessonEdge[];
+
+  /** Category columns, left to right */
+  columns: { id: string; title: string }[];
+}
+
+/**
+ * Build the graph. Prerequisite edges take precedence over a sequence edge
+ * between the same two lessons; edges to unknown lessons are dropped.
+ */
+export function buildLessonGraph(lessons: LessonMetadata[], categories: CategoryDefinition[]): LessonGraph {
+  const ids = new Set(lessons.map(lesson => lesson.id));
+  const edges = new Map<string, LessonEdge>();
+
+  const addEdge = (from: string, to: string, kind: LessonEdgeKind) => {
+    const key = `${from}→${to}`;
+    if (from !== to && ids.has(from) && ids.has(to) && (!edges.has(key) || edges.get(key)!.kind === 'sequence')) {
+      edges.set(key, { from, to, kind });
+    }
+  };
+
+  for (const lesson of lessons) {
+    if (lesson.previousLesson) {
+      addEdge(lesson.previousLesson, lesson.id, 'sequence');
+    }
+    if (lesson.nextLesson) {
+      addEdge(lesson.id, lesson.nextLesson, 'sequence');
+    }
+  }
+  for (const lesson of lessons) {
+    for (const prereq of lesson.prerequisites ?? []) {
+      addEdge(prereq.lessonId, lesson.id, prereq.required ? 'required' : 'recommended');
+    }
+  }
+
+  // Columns: categories in display order that contain lessons
+  const columns = [...categories]
+    .sort((a, b) => a.order - b.order)
+    .filter(category => lessons.some(lesson => lesson.category === category.id))
+    .map(category => ({ id: category.id as string, title: category.title }));
+
+  // Lessons in categories without a definition get a trailing column
+  for (const lesson of lessons) {
+    if (!columns.some(column => column.id === lesson.category)) {
+      columns.push({ id: lesson.category, title: lesson.category });
+    }
+  }
+
+  const nodes: LessonNode[] = [];
+  columns.forEach((column, columnIndex) => {
+    lessons
+      .filter(lesson => lesson.category === column.id)
+      .sort((a, b) => a.order - b.order)
+      .forEach((lesson, row) => {
+        nodes.push({ id: lesson.id, title: lesson.title, category: lesson.category, column: columnIndex, row });
+      });
+  });
+
+  return { nodes, edges: [...edges.values()], columns };
+}
+
+/**
+ * Shortest path (fewest lessons) from any completed lesson to the target,
+ * following graph edges. When nothing reachable has been completed, the path
+ * starts from a lesson with no incoming edges.
+ *
+ * @returns Lesson IDs from start to target (inclusive), or an empty array if
+ *   the target is unknown or unreachable.
+ */
+export function findShortestPath(graph: LessonGraph, completed: Set<string>, targetId: string): string[] {
+  if (!graph.nodes.some(node => node.id === targetId)) {
+    return [];
+  }
+  if (completed.has(targetId)) {
+    return [targetId];
+  }
+
+  const outgoing = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge.to]);
+    hasIncoming.add(edge.to);
+  }
+
+  const completedStarts = graph.nodes.filter(node => completed.has(node.id)).map(node => node.id);
+  const rootStarts = graph.nodes.filter(node => !hasIncoming.has(node.id)).map(node => node.id);
+
+  for (const starts of [completedStarts, rootStarts]) {
+    const path = breadthFirstPath(outgoing, starts, targetId);
+    if (path.length > 0) {
+      return path;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Multi-source BFS returning the first path found to the target
+ */
+function breadthFirstPath(outgoing: Map<string, string[]>, starts: string[], targetId: string): string[] {
+  const previous = new Map<string, string | null>();
+  const queue: string[] = [];
+
+  for (const start of starts) {
+    previous.set(start, null);
+    queue.push(start);
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) {
+      const path: string[] = [];
+      for (let node: string | null = current; node !== null; node = previous.get(node) ?? null) {
+        path.unshift(node);
+      }
+      return path;
+    }
+
+    for (const next of outgoing.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,72 @@
+/**
+ * Lesson Notes
+ *
+ * Formats the notes users keep per lesson (ProgressState.notes) and per
+ * section (ProgressState.sectionNotes, pinned to a heading anchor) into a
+ * single markdown document for "Export All Notes".
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { LessonMetadata, ProgressState } from '../types';
+
+/**
+ * Export file name (written to ~/tt-scratchpad)
+ */
+export const NOTES_EXPORT_FILE = 'lesson-notes.md';
+
+/**
+ * Whether a lesson has any notes
+ */
+export function hasNotes(progress: ProgressState): boolean {
+  return Boolean(progress.notes?.trim()) || Object.keys(progress.sectionNotes ?? {}).length > 0;
+}
+
+/**
+ * Build the notes export: one section per lesson with notes, in registry
+ * order, followed by notes for lessons no longer in the registry.
+ *
+ * @param lessons - Lessons in display order
+ * @param progress - Progress by lesson ID
+ * @param exportedAt - Timestamp for the document header
+ */
+export function formatNotesExport(
+  lessons: LessonMetadata[],
+  progress: Record<string, ProgressState>,
+  exportedAt: Date = new Date()
+): string {
+  const titles = new Map(lessons.map(lesson => [lesson.id, lesson.title]));
+  const lessonIds = [
+    ...lessons.map(lesson => lesson.id),
+    ...Object.keys(progress).filter(id => !titles.has(id)).sort(),
+  ];
+
+  const sections: string[] = [];
+  for (const lessonId of lessonIds) {
+    const lessonProgress = progress[lessonId];
+    if (!lessonProgress || !hasNotes(lessonProgress)) {
+      continue;
+    }
+
+    const lines = [`## ${titles.get(lessonId) ?? lessonId}`, '', `_Lesson: \`${lessonId}\`_`, ''];
+    if (lessonProgress.notes?.trim()) {
+      lines.push(lessonProgress.notes.trim(), '');
+    }
+    for (const [anchor, note] of Object.entries(lessonProgress.sectionNotes ?? {})) {
+      lines.push(`### 📌 ${note.heading}`, '', `_Section: \`#${anchor}\`_`, '', note.text.trim(), '');
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  const header = [
+    '# Tenstorrent Lesson Notes',
+    '',
+    `_Exported ${exportedAt.toISOString()}_`,
+    '',
+  ].join('\n');
+
+  if (sections.length === 0) {
+    return `${header}\nNo notes yet. Open a lesson and use 📝 Notes to add some.\n`;
+  }
+  return `${header}\n${sections.join('\n')}`;
+}
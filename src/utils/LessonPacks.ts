@@ -0,0 +1,139 @@
+/**
+ * Lesson Packs
+ *
+ * External lesson registries ("packs") that teams ship alongside the
+ * built-in lessons, discovered from the `tenstorrent.lessonPaths` setting
+ * and from `.tenstorrent/lessons/registry.json` in workspace folders.
+ *
+ * A pack uses the same format as lesson-registry.json (plus an optional
+ * `name`), with markdownFile paths relative to the pack registry's folder.
+ * Packs are merged after the built-in registry:
+ * - Pack categories are appended after the built-in ones; a pack may also
+ *   add lessons to an existing category by using its ID
+ * - Lessons whose ID is already taken are skipped and reported
+ * - Every pack lesson is tagged with `source` (the pack name)
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { CategoryDefinition, LessonMetadata, LessonRegistry } from '../types';
+
+/**
+ * Pack registry location inside a workspace folder
+ */
+export const WORKSPACE_PACK_REGISTRY = path.join('.tenstorrent', 'lessons', 'registry.json');
+
+/**
+ * Pack registry file name when a directory is given
+ */
+const PACK_REGISTRY_FILE = 'registry.json';
+
+/**
+ * A loaded lesson pack
+ */
+export interface LessonPack {
+  /** Display name (registry `name`, or derived from its location) */
+  name: string;
+
+  /** Absolute path of the pack's registry.json */
+  registryPath: string;
+
+  registry: LessonRegistry;
+}
+
+/**
+ * A pack lesson skipped because its ID is already in use
+ */
+export interface PackCollision {
+  lessonId: string;
+  pack: string;
+  registryPath: string;
+
+  /** Index in the pack's `lessons` array */
+  index: number;
+
+  /** Pack name that already owns the ID, or undefined for a built-in lesson */
+  existingSource?: string;
+}
+
+/**
+ * Result of merging packs into the built-in registry
+ */
+export interface MergedRegistry {
+  registry: LessonRegistry;
+  collisions: PackCollision[];
+}
+
+/**
+ * Resolve a `tenstorrent.lessonPaths` entry to a registry file path.
+ * Accepts a registry JSON file or a folder containing registry.json;
+ * `~` expands to the home directory and relative paths resolve against
+ * `baseDir` (the first workspace folder).
+ */
+export function resolvePackRegistryPath(entry: string, baseDir?: string, homeDir: string = os.homedir()): string {
+  let resolved = entry.trim();
+  if (resolved === '~' || resolved.startsWith('~/')) {
+    resolved = path.join(homeDir, resolved.slice(1));
+  }
+  if (!path.isAbsolute(resolved)) {
+    resolved = path.resolve(baseDir ?? homeDir, resolved);
+  }
+  return resolved.toLowerCase().endsWith('.json') ? resolved : path.join(resolved, PACK_REGISTRY_FILE);
+}
+
+/**
+ * Default pack name: the workspace folder for `.tenstorrent/lessons/registry.json`,
+ * otherwise the folder holding the registry
+ */
+export function defaultPackName(registryPath: string): string {
+  const dir = path.dirname(registryPath);
+  if (registryPath.endsWith(WORKSPACE_PACK_REGISTRY)) {
+    return path.basename(path.dirname(path.dirname(dir)));
+  }
+  return path.basename(dir);
+}
+
+/**
+ * Merge lesson packs into the built-in registry (packs in priority order)
+ */
+export function mergeLessonPacks(base: LessonRegistry, packs: LessonPack[]): MergedRegistry {
+  const categories: CategoryDefinition[] = [...base.categories];
+  const lessons: LessonMetadata[] = [...base.lessons];
+  const owners = new Map<string, string | undefined>(base.lessons.map(lesson => [lesson.id, lesson.source]));
+  const collisions: PackCollision[] = [];
+
+  for (const pack of packs) {
+    const packDir = path.dirname(pack.registryPath);
+    const orderOffset = Math.max(0, ...categories.map(category => category.order));
+
+    for (const category of pack.registry.categories) {
+      if (!categories.some(existing => existing.id === category.id)) {
+        categories.push({ ...category, order: orderOffset + category.order });
+      }
+    }
+
+    pack.registry.lessons.forEach((lesson, index) => {
+      if (owners.has(lesson.id)) {
+        collisions.push({
+          lessonId: lesson.id,
+          pack: pack.name,
+          registryPath: pack.registryPath,
+          index,
+          existingSource: owners.get(lesson.id),
+        });
+        return;
+      }
+
+      owners.set(lesson.id, pack.name);
+      lessons.push({
+        ...lesson,
+        markdownFile: path.resolve(packDir, lesson.markdownFile),
+        source: pack.name,
+      });
+    });
+  }
+
+  return { registry: { ...base, categories, lessons }, collisions };
+}
@@ -1,8 +1,9 @@
 /**
  * Lesson Registry
  *
- * Manages loading, caching, and querying lesson metadata from lesson-registry.json.
- * Provides centralized access to all lesson information for TreeView and Webview.
+ * Manages loading, caching, and querying lesson metadata from lesson-registry.json
+ * and external lesson packs. Provides centralized access to all lesson
+ * information for TreeView and Webview.
  */
 
 import * as vscode from 'vscode';
@@ -15,6 +16,30 @@ import {
   HardwareType,
   LessonCategory,
 } from '../types';
+import { LessonSearchIndex, LessonSearchResult } from './LessonSearch';
+import { getPrerequisiteStatus, PrerequisiteStatus } from './Prerequisites';
+import {
+  locateDiagnostic,
+  RegistryDiagnostic,
+  RegistryValidationOptions,
+  RegistryValidationResult,
+  validateRegistry,
+} from './RegistryValidator';
+import {
+  defaultPackName,
+  LessonPack,
+  mergeLessonPacks,
+  resolvePackRegistryPath,
+  WORKSPACE_PACK_REGISTRY,
+} from './LessonPacks';
+
+/**
+ * A registry file as read from disk, with its diagnostics
+ */
+interface RegistryFile extends RegistryValidationResult {
+  path: string;
+  content: string;
+}
 
 /**
  * Manages lesson registry loading and querying
@@ -23,10 +48,14 @@ export class LessonRegistry {
   private registry: LessonRegistryType | null = null;
   private lessonMap: Map<string, LessonMetadata> = new Map();
   private categoryMap: Map<LessonCategory, CategoryDefinition> = new Map();
+  private searchIndex: LessonSearchIndex | null = null;
+  private diagnostics: RegistryDiagnostic[] = [];
+  private diagnosticCollection: vscode.DiagnosticCollection;
   private extensionContext: vscode.ExtensionContext;
 
   constructor(context: vscode.ExtensionContext) {
     this.extensionContext = context;
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('tenstorrent-lessons');
   }
 
   /**
@@ -34,28 +63,197 @@ export class LessonRegistry {
    */
   async load(): Promise<void> {
     try {
-      const registryPath = path.join(
-        this.extensionContext.extensionPath,
-        'content',
-        'lesson-registry.json'
+      this.readRegistry();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to load lesson registry: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+      throw error;
+    }
+  }
+
+  /**
+   * Read, validate and index the registry and any lesson packs. Throws if
+   * the built-in registry can't be loaded, leaving the previously loaded
+   * registry in place. Broken packs are skipped.
+   */
+  private readRegistry(): void {
+    const registryPath = path.join(
+      this.extensionContext.extensionPath,
+      'content',
+      'lesson-registry.json'
+    );
+
+    if (!fs.existsSync(registryPath)) {
+      throw new Error(`Lesson registry not found at: ${registryPath}`);
+    }
+
+    this.diagnosticCollection.clear();
+
+    const knownCommands = this.getContributedCommands();
+    const builtin = this.readRegistryFile(registryPath, {
+      fileExists: markdownFile => fs.existsSync(path.join(this.extensionContext.extensionPath, markdownFile)),
+      knownCommands,
+    });
+
+    this.diagnostics = builtin.diagnostics;
+    if (!builtin.registry) {
+      this.publishDiagnostics(builtin);
+      throw new Error(builtin.diagnostics.map(d => d.message).join('; '));
+    }
 
-      if (!fs.existsSync(registryPath)) {
-        throw new Error(`Lesson registry not found at: ${registryPath}`);
+    // External lesson packs
+    const packFiles = this.discoverPackPaths().flatMap(packPath => {
+      if (!fs.existsSync(packPath)) {
+        console.warn(`Lesson pack not found: ${packPath}`);
+        return [];
       }
+      return [this.readRegistryFile(packPath, {
+        fileExists: markdownFile => fs.existsSync(path.resolve(path.dirname(packPath), markdownFile)),
+        knownCommands,
+        allowCustomCategories: true,
+        externalLessonIds: new Set(builtin.registry!.lessons.map(lesson => lesson.id)),
+        externalCategoryIds: new Set(builtin.registry!.categories.map(category => category.id)),
+      })];
+    });
+
+    const packs: LessonPack[] = packFiles.flatMap(file =>
+      file.registry
+        ? [{ name: file.registry.name ?? defaultPackName(file.path), registryPath: file.path, registry: file.registry }]
+        : []
+    );
+
+    const { registry, collisions } = mergeLessonPacks(builtin.registry, packs);
+
+    for (const collision of collisions) {
+      packFiles.find(file => file.path === collision.registryPath)?.diagnostics.push({
+        code: 'duplicate-id',
+        severity: 'error',
+        message: `Lesson "${collision.lessonId}" is already defined by ${
+          collision.existingSource ? `lesson pack "${collision.existingSource}"` : 'the built-in lessons'
+        }; skipped`,
+        path: `lessons[${collision.index}].id`,
+        lessonId: collision.lessonId,
+      });
+    }
 
-      const content = fs.readFileSync(registryPath, 'utf-8');
-      this.registry = JSON.parse(content) as LessonRegistryType;
+    for (const file of [builtin, ...packFiles]) {
+      this.publishDiagnostics(file);
+    }
+
+    this.registry = registry;
+
+    // Build maps for fast lookup
+    this.buildMaps();
+
+    console.log(
+      `Loaded ${this.registry.lessons.length} lessons from registry` +
+      (packs.length > 0 ? ` (including ${packs.length} lesson pack(s))` : '')
+    );
+  }
 
-      // Build maps for fast lookup
-      this.buildMaps();
+  /**
+   * Read and validate one registry file (built-in or lesson pack).
+   * A file that can't be read (e.g. a directory or no permission) is
+   * reported like an invalid one and has no registry.
+   */
+  private readRegistryFile(registryPath: string, options: RegistryValidationOptions): RegistryFile {
+    let content: string;
+    try {
+      content = fs.readFileSync(registryPath, 'utf-8');
+    } catch (error) {
+      return {
+        path: registryPath,
+        content: '',
+        registry: null,
+        diagnostics: [{
+          code: 'invalid-schema',
+          severity: 'error',
+          message: `Can't read registry: ${error instanceof Error ? error.message : String(error)}`,
+          path: '',
+        }],
+      };
+    }
 
-      console.log(`Loaded ${this.registry.lessons.length} lessons from registry`);
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
     } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to load lesson registry: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-      throw error;
+      return {
+        path: registryPath,
+        content,
+        registry: null,
+        diagnostics: [{
+          code: 'invalid-schema',
+          severity: 'error',
+          message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+          path: '',
+        }],
+      };
+    }
+
+    return { path: registryPath, content, ...validateRegistry(data, options) };
+  }
+
+  /**
+   * Lesson pack registries from the `tenstorrent.lessonPaths` setting and
+   * `.tenstorrent/lessons/registry.json` in each workspace folder.
+   *
+   * Lessons can run shell commands, so until the workspace is trusted only
+   * absolute (or ~) paths from user settings are loaded: no workspace packs,
+   * no workspace-scoped settings and no paths relative to the workspace.
+   */
+  private discoverPackPaths(): string[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const trusted = vscode.workspace.isTrusted;
+    const lessonPaths = trusted
+      ? vscode.workspace.getConfiguration('tenstorrent').get<string[]>('lessonPaths', [])
+      : (vscode.workspace.getConfiguration('tenstorrent').inspect<string[]>('lessonPaths')?.globalValue ?? [])
+        .filter(entry => path.isAbsolute(entry.trim()) || entry.trim().startsWith('~'));
+    const configured = lessonPaths
+      .filter(entry => entry.trim())
+      .map(entry => resolvePackRegistryPath(entry, folders[0]?.uri.fsPath));
+
+    const inWorkspace = trusted
+      ? folders
+        .map(folder => path.join(folder.uri.fsPath, WORKSPACE_PACK_REGISTRY))
+        .filter(packPath => fs.existsSync(packPath))
+      : [];
+
+    return [...new Set([...configured, ...inWorkspace])];
+  }
+
+  /**
+   * Command IDs contributed in package.json (for checking completion events)
+   */
+  private getContributedCommands(): Set<string> {
+    const commands: { command: string }[] =
+      this.extensionContext.extension?.packageJSON?.contributes?.commands ?? [];
+    return new Set(commands.map(c => c.command));
+  }
+
+  /**
+   * Show a registry file's diagnostics in the Problems panel
+   */
+  private publishDiagnostics(file: RegistryFile): void {
+    this.diagnosticCollection.set(
+      vscode.Uri.file(file.path),
+      file.diagnostics.map(d => {
+        const { line, character } = locateDiagnostic(file.content, d);
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(line, character, line, character + 1),
+          d.message,
+          d.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Tenstorrent Lessons';
+        diagnostic.code = d.code;
+        return diagnostic;
+      })
+    );
+
+    const errors = file.diagnostics.filter(d => d.severity === 'error').length;
+    if (errors > 0) {
+      console.warn(`${path.basename(file.path)} has ${errors} error(s); see the Problems panel`);
     }
   }
 
@@ -78,6 +276,9 @@ export class LessonRegistry {
     for (const category of this.registry.categories) {
       this.categoryMap.set(category.id, category);
     }
+
+    // Search index is rebuilt lazily on next search
+    this.searchIndex = null;
   }
 
   /**
@@ -159,23 +360,32 @@ export class LessonRegistry {
   }
 
   /**
-   * Search lessons by query (fuzzy search on title, description, tags)
+   * Search lessons by query (fuzzy search on metadata and lesson content),
+   * most relevant first
    */
   search(query: string): LessonMetadata[] {
     if (!query.trim()) {
       return this.getAll();
     }
 
-    const lowerQuery = query.toLowerCase();
+    return this.searchWithRelevance(query).map(result => result.lesson);
+  }
 
-    return this.getAll().filter(lesson => {
-      return (
-        lesson.title.toLowerCase().includes(lowerQuery) ||
-        lesson.description.toLowerCase().includes(lowerQuery) ||
-        lesson.tags.some(tag => tag.toLowerCase().includes(lowerQuery)) ||
-        lesson.id.toLowerCase().includes(lowerQuery)
-      );
-    });
+  /**
+   * Relevance-ranked search with matched fields, snippets and heading anchors
+   */
+  searchWithRelevance(query: string, limit?: number): LessonSearchResult[] {
+    if (!this.searchIndex) {
+      this.searchIndex = new LessonSearchIndex(this.getAll(), lesson => {
+        try {
+          return fs.readFileSync(this.getMarkdownPath(lesson), 'utf-8');
+        } catch {
+          return undefined;
+        }
+      });
+    }
+
+    return this.searchIndex.search(query, limit);
   }
 
   /**
@@ -239,15 +449,21 @@ export class LessonRegistry {
     lessonId: string,
     completedLessons: Set<string>
   ): LessonMetadata[] {
+    return this.getPrerequisiteStatus(lessonId, completedLessons).missing.map(p => p.lesson);
+  }
+
+  /**
+   * Get unmet required and recommended (optional) prerequisites for a lesson
+   */
+  getPrerequisiteStatus(
+    lessonId: string,
+    completedLessons: Set<string>
+  ): PrerequisiteStatus {
     const lesson = this.get(lessonId);
-    if (!lesson?.prerequisites) {
-      return [];
+    if (!lesson) {
+      return { missing: [], recommended: [] };
     }
-
-    return lesson.prerequisites
-      .filter(prereq => prereq.required && !completedLessons.has(prereq.lessonId))
-      .map(prereq => this.get(prereq.lessonId))
-      .filter((l): l is LessonMetadata => l !== undefined);
+    return getPrerequisiteStatus(lesson, completedLessons, id => this.get(id));
   }
 
   /**
@@ -265,10 +481,26 @@ export class LessonRegistry {
   }
 
   /**
-   * Reload registry from disk
+   * Problems found when the registry was last loaded
+   */
+  getDiagnostics(): RegistryDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Reload registry from disk. Throws (without notifying the user) if the
+   * registry is broken; the last good registry stays loaded.
    */
   async reload(): Promise<void> {
-    await this.load();
+    this.readRegistry();
+  }
+
+  /**
+   * Absolute path of a lesson's markdown file (built-in lessons are relative
+   * to the extension; lesson pack paths are already absolute)
+   */
+  getMarkdownPath(lesson: LessonMetadata): string {
+    return path.resolve(this.getExtensionPath(), lesson.markdownFile);
   }
 
   /**
@@ -277,4 +509,11 @@ export class LessonRegistry {
   getExtensionPath(): string {
     return this.extensionContext.extensionPath;
   }
+
+  /**
+   * Dispose registry diagnostics
+   */
+  dispose(): void {
+    this.diagnosticCollection.dispose();
+  }
 }
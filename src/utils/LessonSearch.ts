@@ -0,0 +1,395 @@
+/**
+ * Lesson Search
+ *
+ * Relevance-ranked search over lesson metadata and the full markdown body
+ * of each lesson. Queries are tokenized and matched fuzzily (prefix,
+ * substring and small typos), with field weights so a title hit outranks
+ * a passing mention in the body. Body matches point at the nearest heading
+ * so callers can jump straight to the matching section.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import matter from 'gray-matter';
+import { LessonMetadata, SearchResult } from '../types';
+
+/**
+ * Searchable fields and their weights
+ */
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  headings: 5,
+  id: 4,
+  description: 3,
+  body: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Tokens ignored in queries and documents
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is',
+  'it', 'of', 'on', 'or', 'the', 'this', 'to', 'with', 'you', 'your',
+]);
+
+/**
+ * Snippet length (characters) around the first body match
+ */
+const SNIPPET_LENGTH = 140;
+
+/**
+ * A heading-delimited section of a lesson body
+ */
+interface LessonSection {
+  heading: string | null;
+  anchor: string | null;
+  text: string;
+  tokens: Set<string>;
+}
+
+/**
+ * Indexed lesson
+ */
+interface IndexedLesson {
+  lesson: LessonMetadata;
+  fields: Record<Exclude<SearchField, 'body'>, Set<string>>;
+  sections: LessonSection[];
+}
+
+/**
+ * Search result with the section to jump to
+ */
+export interface LessonSearchResult extends SearchResult {
+  /** Lesson metadata for display */
+  lesson: LessonMetadata;
+}
+
+/**
+ * Split text into lowercase search tokens
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:[._][\p{L}\p{N}]+)*/gu) ?? [])
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Strip inline markdown (links, emphasis, code, HTML) to plain text
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
+
+/**
+ * Generates GitHub-style heading anchors, de-duplicating repeats
+ * ("setup", "setup-1", ...). Use one instance per document.
+ */
+export class HeadingSlugger {
+  private seen = new Map<string, number>();
+
+  slug(heading: string): string {
+    const base = stripInlineMarkdown(heading)
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-');
+
+    const count = this.seen.get(base) ?? 0;
+    this.seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  }
+}
+
+/**
+ * Split a markdown body into sections at headings (ignoring code fences)
+ */
+export function splitSections(markdown: string): Omit<LessonSection, 'tokens'>[] {
+  const body = matter(markdown).content;
+  const slugger = new HeadingSlugger();
+  const sections: Omit<LessonSection, 'tokens'>[] = [{ heading: null, anchor: null, text: '' }];
+  let fence: string | null = null;
+
+  for (const line of body.split('\n')) {
+    const fenceMatch = line.trim().match(/^(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+    }
+
+    const headingMatch = fence === null ? line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/) : null;
+    if (headingMatch) {
+      sections.push({ heading: stripInlineMarkdown(headingMatch[1]), anchor: slugger.slug(headingMatch[1]), text: '' });
+      continue;
+    }
+
+    const current = sections[sections.length - 1];
+    current.text += `${stripInlineMarkdown(line)}\n`;
+  }
+
+  return sections.filter(section => section.heading !== null || section.text.trim());
+}
+
+/**
+ * Bounded Levenshtein distance (returns max + 1 once exceeded)
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a query token matches a document token (0 = no match, 1 = exact)
+ */
+function matchToken(query: string, token: string): number {
+  if (query === token) {
+    return 1;
+  }
+  if (token.startsWith(query)) {
+    return 0.8;
+  }
+  if (query.length >= 3 && token.includes(query)) {
+    return 0.6;
+  }
+
+  const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  if (allowed > 0 && editDistance(query, token, allowed) <= allowed) {
+    return 0.5;
+  }
+  return 0;
+}
+
+/**
+ * Best match of a query token within a token set
+ */
+function bestMatch(query: string, tokens: Set<string>): number {
+  if (tokens.has(query)) {
+    return 1;
+  }
+
+  let best = 0;
+  for (const token of tokens) {
+    best = Math.max(best, matchToken(query, token));
+    if (best >= 0.8) {
+      break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Snippet of text around the first fuzzy match of any query token
+ */
+function makeSnippet(text: string, queryTokens: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const words = flat.split(' ');
+
+  let offset = 0;
+  let matchAt = -1;
+  for (const word of words) {
+    const wordTokens = new Set(tokenize(word));
+    if (queryTokens.some(query => bestMatch(query, wordTokens) > 0)) {
+      matchAt = offset;
+      break;
+    }
+    offset += word.length + 1;
+  }
+
+  if (matchAt < 0) {
+    return flat.slice(0, SNIPPET_LENGTH) + (flat.length > SNIPPET_LENGTH ? '…' : '');
+  }
+
+  const start = Math.max(0, matchAt - Math.floor(SNIPPET_LENGTH / 3));
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  return (start > 0 ? '…' : '') + flat.slice(start, end).trim() + (end < flat.length ? '…' : '');
+}
+
+/**
+ * Search index over lesson metadata and markdown bodies
+ */
+export class LessonSearchIndex {
+  private documents: IndexedLesson[];
+
+  /**
+   * @param lessons - Lessons to index
+   * @param loadMarkdown - Returns the raw markdown for a lesson (or undefined
+   *   if the file can't be read; the lesson is then searched by metadata only)
+   */
+  constructor(lessons: LessonMetadata[], loadMarkdown: (lesson: LessonMetadata) => string | undefined) {
+    this.documents = lessons.map(lesson => {
+      const markdown = loadMarkdown(lesson);
+      const sections = markdown
+        ? splitSections(markdown).map(section => ({
+            ...section,
+            tokens: new Set(tokenize(`${section.heading ?? ''} ${section.text}`)),
+          }))
+        : [];
+
+      return {
+        lesson,
+        fields: {
+          title: new Set(tokenize(lesson.title)),
+          tags: new Set(lesson.tags.flatMap(tokenize)),
+          headings: new Set(sections.flatMap(section => tokenize(section.heading ?? ''))),
+          id: new Set(tokenize(lesson.id.replace(/-/g, ' '))),
+          description: new Set(tokenize(lesson.description)),
+        },
+        sections,
+      };
+    });
+  }
+
+  /**
+   * Search lessons, best match first
+   */
+  search(query: string, limit: number = 20): LessonSearchResult[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) {
+      return this.substringSearch(query).slice(0, limit);
+    }
+
+    const maxScore = queryTokens.length * FIELD_WEIGHTS.title;
+    const results: LessonSearchResult[] = [];
+
+    for (const doc of this.documents) {
+      const matchedFields = new Set<SearchField>();
+      let score = 0;
+      let matchedTokens = 0;
+
+      for (const queryToken of queryTokens) {
+        let tokenScore = 0;
+
+        for (const field of Object.keys(doc.fields) as Exclude<SearchField, 'body'>[]) {
+          const match = bestMatch(queryToken, doc.fields[field]);
+          if (match > 0) {
+            matchedFields.add(field);
+            tokenScore = Math.max(tokenScore, match * FIELD_WEIGHTS[field]);
+          }
+        }
+
+        const bodyMatch = Math.max(0, ...doc.sections.map(section => bestMatch(queryToken, section.tokens)));
+        if (bodyMatch > 0) {
+          matchedFields.add('body');
+          tokenScore = Math.max(tokenScore, bodyMatch * FIELD_WEIGHTS.body);
+        }
+
+        if (tokenScore > 0) {
+          matchedTokens++;
+          score += tokenScore;
+        }
+      }
+
+      if (matchedTokens === 0) {
+        continue;
+      }
+
+      // Favour lessons matching every query term, and exact title phrases
+      score *= matchedTokens / queryTokens.length;
+      if (doc.lesson.title.toLowerCase().includes(query.trim().toLowerCase())) {
+        score += FIELD_WEIGHTS.title;
+      }
+
+      const section = this.bestSection(doc.sections, queryTokens);
+
+      results.push({
+        lessonId: doc.lesson.id,
+        lesson: doc.lesson,
+        relevance: Math.min(1, score / maxScore),
+        matchedFields: [...matchedFields],
+        highlights: section ? [makeSnippet(section.text, queryTokens)] : [doc.lesson.description],
+        anchor: section?.anchor ?? undefined,
+        heading: section?.heading ?? undefined,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.relevance - a.relevance || a.lesson.order - b.lesson.order)
+      .slice(0, limit);
+  }
+
+  /**
+   * Plain substring match on title, description, tags and ID, for queries
+   * made only of stop words and one-character tokens (e.g. "a")
+   */
+  private substringSearch(query: string): LessonSearchResult[] {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) {
+      return [];
+    }
+
+    const results: LessonSearchResult[] = [];
+    for (const { lesson } of this.documents) {
+      const matchedFields: SearchField[] = [];
+      if (lesson.title.toLowerCase().includes(lowerQuery)) {
+        matchedFields.push('title');
+      }
+      if (lesson.tags.some(tag => tag.toLowerCase().includes(lowerQuery))) {
+        matchedFields.push('tags');
+      }
+      if (lesson.id.toLowerCase().includes(lowerQuery)) {
+        matchedFields.push('id');
+      }
+      if (lesson.description.toLowerCase().includes(lowerQuery)) {
+        matchedFields.push('description');
+      }
+
+      if (matchedFields.length > 0) {
+        results.push({
+          lessonId: lesson.id,
+          lesson,
+          relevance: Math.max(...matchedFields.map(field => FIELD_WEIGHTS[field])) / FIELD_WEIGHTS.title,
+          matchedFields,
+          highlights: [lesson.description],
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.relevance - a.relevance || a.lesson.order - b.lesson.order);
+  }
+
+  /**
+   * Section matching the most query tokens (headings count double)
+   */
+  private bestSection(sections: LessonSection[], queryTokens: string[]): LessonSection | undefined {
+    let best: LessonSection | undefined;
+    let bestScore = 0;
+
+    for (const section of sections) {
+      const headingTokens = new Set(tokenize(section.heading ?? ''));
+      let score = 0;
+      for (const queryToken of queryTokens) {
+        score += bestMatch(queryToken, section.tokens) + bestMatch(queryToken, headingTokens);
+      }
+      if (score > bestScore) {
+        best = section;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Lesson Sorter
+ *
+ * Implements the SortOption modes from FilterConfig for lesson lists.
+ * Progress data is passed in as a lookup so this stays free of VSCode
+ * dependencies and can be unit tested.
+ */
+
+import { LessonMetadata, ProgressState, ProgressStatus, SortDirection, SortOption } from '../types';
+
+/**
+ * Natural direction for each sort mode (used when a mode is first picked)
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<SortOption, SortDirection> = {
+  order: 'asc',
+  alphabetical: 'asc',
+  recent: 'desc',     // Most recently opened first
+  progress: 'asc',    // In-progress first, completed last
+  duration: 'asc',    // Shortest first
+};
+
+/**
+ * Ranking used by the 'progress' sort (ascending)
+ */
+const PROGRESS_RANK: Record<ProgressStatus, number> = {
+  'in-progress': 0,
+  'not-started': 1,
+  'completed': 2,
+};
+
+/**
+ * Sort lessons without modifying the input array.
+ *
+ * Lessons missing the sort key (never opened for 'recent', no estimate for
+ * 'duration') always go last. Ties fall back to registry order.
+ */
+export function sortLessons(
+  lessons: LessonMetadata[],
+  sortBy: SortOption,
+  direction: SortDirection,
+  getProgress: (lessonId: string) => ProgressState
+): LessonMetadata[] {
+  const sign = direction === 'desc' ? -1 : 1;
+
+  const key = (lesson: LessonMetadata): number | string | undefined => {
+    switch (sortBy) {
+      case 'alphabetical':
+        return lesson.title.toLowerCase();
+      case 'recent': {
+        const lastAccessed = getProgress(lesson.id).lastAccessed;
+        return lastAccessed > 0 ? lastAccessed : undefined;
+      }
+      case 'progress':
+        return PROGRESS_RANK[getProgress(lesson.id).status];
+      case 'duration':
+        return lesson.estimatedMinutes;
+      default:
+        return lesson.order;
+    }
+  };
+
+  return lessons
+    .map(lesson => ({ lesson, value: key(lesson) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        if (a.value !== b.value) {
+          return a.value === undefined ? 1 : -1;
+        }
+      } else if (a.value !== b.value) {
+        const cmp = typeof a.value === 'string' && typeof b.value === 'string'
+          ? a.value.localeCompare(b.value)
+          : (a.value as number) - (b.value as number);
+        return sign * cmp;
+      }
+      return a.lesson.order - b.lesson.order;
+    })
+    .map(entry => entry.lesson);
+}
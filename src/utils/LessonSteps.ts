@@ -0,0 +1,60 @@
+/**
+ * Lesson Steps
+ *
+ * A lesson's steps are its command buttons and runnable code blocks. Each
+ * step has a stable key, written into the rendered HTML as data-step-key,
+ * so the webview can show which steps are done, failed or still pending:
+ *
+ *   [Detect Hardware](command:tenstorrent.runHardwareDetection)  → command:tenstorrent.runHardwareDetection
+ *   ```bash run                                                  → block:<hash of the code>
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { ProgressState } from '../types';
+
+/**
+ * State of a step shown in the lesson webview
+ */
+export type StepState = 'done' | 'failed' | 'pending';
+
+/**
+ * Step key for a command button
+ */
+export function commandStepKey(commandId: string): string {
+  return `command:${commandId}`;
+}
+
+/**
+ * Step key for a runnable code block (a hash of its trimmed code, so the key
+ * survives edits elsewhere in the lesson)
+ */
+export function codeBlockStepKey(code: string): string {
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (const char of code.trim()) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `block:${hash.toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Done and failed steps of a lesson (steps not listed are pending).
+ * Commands recorded before steps were tracked count as done.
+ */
+export function getStepStates(progress: ProgressState): Record<string, StepState> {
+  const states: Record<string, StepState> = {};
+
+  for (const commandId of progress.completedCommands) {
+    states[commandStepKey(commandId)] = 'done';
+  }
+  for (const key of progress.completedSteps ?? []) {
+    states[key] = 'done';
+  }
+  for (const key of progress.failedSteps ?? []) {
+    states[key] = 'failed';
+  }
+
+  return states;
+}
@@ -0,0 +1,67 @@
+/**
+ * Output Tail
+ *
+ * Keeps the last lines of a command's output as it streams in, with
+ * terminal escape sequences removed, so executions can be summarized
+ * without holding the whole output in memory.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+/**
+ * Default number of lines kept per command
+ */
+export const DEFAULT_TAIL_LINES = 20;
+
+/**
+ * Remove ANSI/VT escape sequences (colors, cursor movement, OSC titles and
+ * shell integration markers) from terminal output
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')        // OSC ... BEL/ST
+    .replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, '')                 // CSI sequences
+    .replace(/\x1b[@-Z\\-_]/g, '');                          // Other 2-byte escapes
+}
+
+/**
+ * Rolling buffer of the last N output lines
+ */
+export class OutputTail {
+  private lines: string[] = [];
+  private partial = '';
+
+  constructor(private readonly maxLines: number = DEFAULT_TAIL_LINES) {}
+
+  /**
+   * Append a chunk of output (may contain partial lines)
+   */
+  append(chunk: string): void {
+    const text = this.partial + stripAnsi(chunk).replace(/\r\n/g, '\n');
+    const parts = text.split('\n');
+    this.partial = parts.pop() ?? '';
+
+    for (const part of parts) {
+      // Carriage returns redraw the line (progress bars): keep the last state
+      this.lines.push(part.split('\r').pop() ?? '');
+    }
+    if (this.lines.length > this.maxLines) {
+      this.lines = this.lines.slice(-this.maxLines);
+    }
+  }
+
+  /**
+   * Last lines, including an unterminated final line; blank trailing lines dropped
+   */
+  getLines(): string[] {
+    const lines = [...this.lines];
+    const partial = this.partial.split('\r').pop() ?? '';
+    if (partial) {
+      lines.push(partial);
+    }
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+      lines.pop();
+    }
+    return lines.slice(-this.maxLines);
+  }
+}
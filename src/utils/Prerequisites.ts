@@ -0,0 +1,57 @@
+/**
+ * Prerequisites
+ *
+ * Resolves which of a lesson's prerequisites are still outstanding for the
+ * user's completed lessons. Required prerequisites lock a lesson; optional
+ * ones are shown as "recommended first".
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { LessonMetadata, PrerequisiteInfo } from '../types';
+
+/**
+ * An outstanding prerequisite with its lesson resolved
+ */
+export interface PendingPrerequisite {
+  lesson: LessonMetadata;
+  info: PrerequisiteInfo;
+}
+
+/**
+ * Outstanding prerequisites for one lesson
+ */
+export interface PrerequisiteStatus {
+  /** Required prerequisites not yet completed (lesson is locked if any) */
+  missing: PendingPrerequisite[];
+
+  /** Optional prerequisites not yet completed */
+  recommended: PendingPrerequisite[];
+}
+
+/**
+ * Work out which prerequisites are outstanding. Prerequisites that reference
+ * unknown lessons are ignored.
+ */
+export function getPrerequisiteStatus(
+  lesson: LessonMetadata,
+  completedLessons: Set<string>,
+  lookup: (lessonId: string) => LessonMetadata | undefined
+): PrerequisiteStatus {
+  const status: PrerequisiteStatus = { missing: [], recommended: [] };
+
+  for (const info of lesson.prerequisites ?? []) {
+    if (completedLessons.has(info.lessonId)) {
+      continue;
+    }
+
+    const prerequisite = lookup(info.lessonId);
+    if (!prerequisite) {
+      continue;
+    }
+
+    (info.required ? status.missing : status.recommended).push({ lesson: prerequisite, info });
+  }
+
+  return status;
+}
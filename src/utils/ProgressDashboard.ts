@@ -0,0 +1,218 @@
+/**
+ * Progress Dashboard
+ *
+ * Builds the data shown by the progress dashboard: completion per category,
+ * time spent per lesson, an activity calendar with streaks (from each
+ * lesson's first/last access and the progress event history), and in-progress
+ * lessons to continue.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { CategoryDefinition, LessonMetadata, ProgressEvent, ProgressState, ProgressStatus } from '../types';
+
+/**
+ * Weeks shown in the activity calendar
+ */
+export const ACTIVITY_WEEKS = 12;
+
+/**
+ * In-progress lessons offered under "Continue"
+ */
+const CONTINUE_LIMIT = 5;
+
+/**
+ * Completion of one category
+ */
+export interface CategoryProgress {
+  id: string;
+  title: string;
+  total: number;
+  completed: number;
+  inProgress: number;
+}
+
+/**
+ * Time spent on one lesson
+ */
+export interface LessonTime {
+  id: string;
+  title: string;
+  status: ProgressStatus;
+  timeSpentSeconds: number;
+}
+
+/**
+ * Lessons touched on one day (date is local YYYY-MM-DD)
+ */
+export interface ActivityDay {
+  date: string;
+  count: number;
+}
+
+/**
+ * In-progress lesson to continue
+ */
+export interface ContinueLesson {
+  id: string;
+  title: string;
+  lastAccessed: number;
+}
+
+/**
+ * Everything the dashboard renders
+ */
+export interface ProgressDashboard {
+  categories: CategoryProgress[];
+
+  /** Lessons with time spent, most time first */
+  lessonTimes: LessonTime[];
+
+  /** One entry per day for the last ACTIVITY_WEEKS weeks, oldest first, ending today */
+  activity: ActivityDay[];
+
+  /** Consecutive active days ending today (or yesterday, if today has no activity yet) */
+  currentStreak: number;
+  longestStreak: number;
+
+  /** In-progress lessons, most recently opened first */
+  continueLessons: ContinueLesson[];
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Same calendar day, `days` later (negative for earlier)
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Count lessons touched per day (a lesson counts once per day)
+ */
+function countActivity(progress: Record<string, ProgressState>, history: ProgressEvent[]): Map<string, number> {
+  const times = new Map<string, number[]>();
+  for (const [lessonId, lesson] of Object.entries(progress)) {
+    times.set(lessonId, [lesson.firstAccessed ?? 0, lesson.lastAccessed]);
+  }
+  for (const event of history) {
+    if ('lessonId' in event && event.lessonId !== undefined && times.has(event.lessonId)) {
+      times.get(event.lessonId)?.push(event.at);
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const lessonTimes of times.values()) {
+    const days = new Set(
+      lessonTimes
+        .filter(time => time > 0)
+        .map(time => toDateKey(new Date(time)))
+    );
+    for (const day of days) {
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Longest run of consecutive active days
+ */
+function longestRun(activeDays: string[]): number {
+  const sorted = [...activeDays].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | undefined;
+
+  for (const day of sorted) {
+    const [year, month, date] = day.split('-').map(Number);
+    const expected = previous ? toDateKey(addDays(new Date(year, month - 1, date), -1)) : undefined;
+    run = previous !== undefined && expected === previous ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  return longest;
+}
+
+/**
+ * Build the dashboard from registry lessons and stored progress
+ *
+ * @param categories - Category definitions (shown in `order`)
+ * @param lessons - All lessons
+ * @param progress - Progress by lesson ID
+ * @param now - Current time (calendar and streaks end on this day)
+ * @param history - Progress events, for activity beyond first/last access
+ */
+export function buildProgressDashboard(
+  categories: CategoryDefinition[],
+  lessons: LessonMetadata[],
+  progress: Record<string, ProgressState>,
+  now: Date = new Date(),
+  history: ProgressEvent[] = []
+): ProgressDashboard {
+  const statusOf = (lessonId: string): ProgressStatus => progress[lessonId]?.status ?? 'not-started';
+
+  const categoryProgress = [...categories]
+    .sort((a, b) => a.order - b.order)
+    .map(category => {
+      const inCategory = lessons.filter(lesson => lesson.category === category.id);
+      return {
+        id: category.id,
+        title: category.title,
+        total: inCategory.length,
+        completed: inCategory.filter(lesson => statusOf(lesson.id) === 'completed').length,
+        inProgress: inCategory.filter(lesson => statusOf(lesson.id) === 'in-progress').length,
+      };
+    })
+    .filter(category => category.total > 0);
+
+  const lessonTimes = lessons
+    .filter(lesson => (progress[lesson.id]?.timeSpentSeconds ?? 0) > 0)
+    .map(lesson => ({
+      id: lesson.id,
+      title: lesson.title,
+      status: statusOf(lesson.id),
+      timeSpentSeconds: progress[lesson.id].timeSpentSeconds,
+    }))
+    .sort((a, b) => b.timeSpentSeconds - a.timeSpentSeconds);
+
+  const counts = countActivity(progress, history);
+  const days = ACTIVITY_WEEKS * 7;
+  const activity = Array.from({ length: days }, (_, i) => {
+    const date = toDateKey(addDays(now, i - days + 1));
+    return { date, count: counts.get(date) ?? 0 };
+  });
+
+  // Current streak: count back from today (or yesterday, so the streak
+  // isn't shown as broken before the user has opened a lesson today)
+  let currentStreak = 0;
+  let day = counts.has(toDateKey(now)) ? now : addDays(now, -1);
+  while (counts.has(toDateKey(day))) {
+    currentStreak++;
+    day = addDays(day, -1);
+  }
+
+  const continueLessons = lessons
+    .filter(lesson => statusOf(lesson.id) === 'in-progress')
+    .map(lesson => ({ id: lesson.id, title: lesson.title, lastAccessed: progress[lesson.id].lastAccessed }))
+    .sort((a, b) => b.lastAccessed - a.lastAccessed)
+    .slice(0, CONTINUE_LIMIT);
+
+  return {
+    categories: categoryProgress,
+    lessonTimes,
+    activity,
+    currentStreak,
+    longestStreak: longestRun([...counts.keys()]),
+    continueLessons,
+  };
+}
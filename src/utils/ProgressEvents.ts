@@ -0,0 +1,237 @@
+/**
+ * Progress Events
+ *
+ * Lesson progress is stored as an append-only log of ProgressEvents.
+ * Lesson state and totals are derived by replaying the log, so they can't
+ * drift from what actually happened, and writers only ever append (nothing
+ * is read-modified-written, so concurrent updates can't overwrite each
+ * other).
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { GlobalProgressState, ProgressEvent, ProgressState } from '../types';
+import { mergeProgress, withTotals } from './ProgressSync';
+
+/**
+ * Log length at which older events are compacted into a snapshot
+ */
+export const MAX_PROGRESS_EVENTS = 5000;
+
+/**
+ * Most recent events kept (as history) when compacting
+ */
+const KEPT_PROGRESS_EVENTS = 4000;
+
+/**
+ * Progress of a lesson with no events
+ */
+export function emptyLessonProgress(lessonId: string): ProgressState {
+  return {
+    lessonId,
+    status: 'not-started',
+    completedCommands: [],
+    lastAccessed: 0,
+    timeSpentSeconds: 0,
+    viewCount: 0,
+  };
+}
+
+/**
+ * Copy of stored lessons, so replaying never shares objects with the log
+ */
+function cloneLessons(progress: { lessons: Record<string, ProgressState> }): Record<string, ProgressState> {
+  return JSON.parse(JSON.stringify(progress.lessons));
+}
+
+/**
+ * Apply one event. Lessons are replaced rather than modified in place.
+ */
+function applyEvent(lessons: Record<string, ProgressState>, event: ProgressEvent): Record<string, ProgressState> {
+  switch (event.type) {
+    case 'snapshot':
+      return cloneLessons(event.progress);
+
+    case 'imported':
+      for (const lessonId of event.removed ?? []) {
+        delete lessons[lessonId];
+      }
+      return { ...lessons, ...cloneLessons(event) };
+
+    case 'reset':
+      if (event.lessonId === undefined) {
+        return {};
+      }
+      delete lessons[event.lessonId];
+      return lessons;
+  }
+
+  const progress = lessons[event.lessonId] ?? emptyLessonProgress(event.lessonId);
+  const started = progress.status === 'not-started' ? 'in-progress' : progress.status;
+  let next: ProgressState;
+
+  switch (event.type) {
+    case 'opened':
+      next = {
+        ...progress,
+        status: started,
+        firstAccessed: progress.firstAccessed || event.at,
+        lastAccessed: event.at,
+        viewCount: progress.viewCount + 1,
+      };
+      break;
+
+    case 'session':
+      next = { ...progress, timeSpentSeconds: progress.timeSpentSeconds + event.seconds };
+      break;
+
+    case 'command-run':
+      next = {
+        ...progress,
+        status: started,
+        completedCommands: progress.completedCommands.includes(event.commandId)
+          ? progress.completedCommands
+          : [...progress.completedCommands, event.commandId],
+      };
+      break;
+
+    case 'completed':
+      next = { ...progress, status: 'completed' };
+      break;
+
+    case 'step-result': {
+      const others = (keys: string[] = []) => keys.filter(key => key !== event.stepKey);
+      next = {
+        ...progress,
+        completedSteps: event.passed ? [...others(progress.completedSteps), event.stepKey] : others(progress.completedSteps),
+        failedSteps: event.passed ? others(progress.failedSteps) : [...others(progress.failedSteps), event.stepKey],
+      };
+      break;
+    }
+
+    case 'note': {
+      const text = event.text.trim().length > 0 ? event.text : undefined;
+      if (!event.section) {
+        next = { ...progress, notes: text };
+        break;
+      }
+      const sectionNotes = { ...progress.sectionNotes };
+      if (text) {
+        sectionNotes[event.section.anchor] = { heading: event.section.heading, text, updatedAt: event.at };
+      } else {
+        delete sectionNotes[event.section.anchor];
+      }
+      next = { ...progress, sectionNotes: Object.keys(sectionNotes).length > 0 ? sectionNotes : undefined };
+      break;
+    }
+  }
+
+  lessons[event.lessonId] = next;
+  return lessons;
+}
+
+/**
+ * Derive progress by replaying events in order
+ */
+export function replayProgress(events: ProgressEvent[]): GlobalProgressState {
+  let lessons: Record<string, ProgressState> = {};
+  let lastSync = 0;
+
+  for (const event of events) {
+    lessons = applyEvent(lessons, event);
+    lastSync = Math.max(lastSync, event.at);
+  }
+
+  return withTotals(lessons, lastSync);
+}
+
+/**
+ * JSON with sorted keys and without undefined values, for comparing lessons
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Events that import progress from a backup or another machine.
+ * 'merge' combines it with the current progress (see ProgressSync);
+ * 'replace' overwrites it. Only the lessons the import changes are
+ * stored, and an import that changes nothing stores nothing, so repeated
+ * syncs don't grow the log.
+ */
+export function importProgressEvents(
+  current: GlobalProgressState,
+  incoming: GlobalProgressState,
+  strategy: 'merge' | 'replace',
+  at: number
+): ProgressEvent[] {
+  const result = strategy === 'merge'
+    ? mergeProgress(current, incoming, at).lessons
+    : Object.fromEntries(Object.entries(incoming.lessons).map(([lessonId, progress]) => [lessonId, { ...progress, lessonId }]));
+
+  const lessons = Object.fromEntries(
+    Object.entries(result).filter(([lessonId, progress]) =>
+      !current.lessons[lessonId] || canonicalJson(current.lessons[lessonId]) !== canonicalJson(progress)
+    )
+  );
+  const removed = Object.keys(current.lessons).filter(lessonId => !result[lessonId]);
+
+  if (Object.keys(lessons).length === 0 && removed.length === 0) {
+    return [];
+  }
+  return [removed.length > 0 ? { type: 'imported', at, lessons, removed } : { type: 'imported', at, lessons }];
+}
+
+/**
+ * Whether two events are edits of the same note
+ */
+function isSameNote(a: ProgressEvent, b: ProgressEvent): boolean {
+  return a.type === 'note' && b.type === 'note' &&
+    a.lessonId === b.lessonId && a.section?.anchor === b.section?.anchor;
+}
+
+/**
+ * Append an event to the log. Consecutive edits of the same note (notes
+ * autosave while typing) are kept as one event, and once the log reaches
+ * MAX_PROGRESS_EVENTS, older events are compacted into a snapshot.
+ */
+export function appendProgressEvent(events: ProgressEvent[], event: ProgressEvent): ProgressEvent[] {
+  const last = events[events.length - 1];
+  const appended = last && isSameNote(last, event)
+    ? [...events.slice(0, -1), event]
+    : [...events, event];
+
+  if (appended.length < MAX_PROGRESS_EVENTS) {
+    return appended;
+  }
+
+  const older = appended.slice(0, -KEPT_PROGRESS_EVENTS);
+  const snapshot: ProgressEvent = {
+    type: 'snapshot',
+    at: older[older.length - 1].at,
+    progress: replayProgress(older),
+  };
+  return [snapshot, ...appended.slice(-KEPT_PROGRESS_EVENTS)];
+}
+
+/**
+ * Events since progress was last reset for all lessons
+ */
+export function progressHistory(events: ProgressEvent[]): ProgressEvent[] {
+  let start = 0;
+  events.forEach((event, index) => {
+    if (event.type === 'reset' && event.lessonId === undefined) {
+      start = index + 1;
+    }
+  });
+  return events.slice(start);
+}
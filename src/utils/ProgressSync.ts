@@ -0,0 +1,290 @@
+/**
+ * Progress Sync
+ *
+ * Versioned progress files for moving lesson progress between machines,
+ * and the merge used when importing them (instead of overwriting):
+ * - Completed commands and steps: union
+ * - Time spent and view count: max
+ * - First access: earliest; last access: latest
+ * - Status: furthest along (completed > in-progress > not-started)
+ * - Notes: from whichever side opened the lesson last; section notes by
+ *   most recent edit
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { GlobalProgressState, ProgressState, ProgressStatus, SectionNote } from '../types';
+
+/**
+ * `format` marker of progress files
+ */
+export const PROGRESS_FILE_FORMAT = 'tenstorrent-progress';
+
+/**
+ * Current progress file version
+ */
+export const PROGRESS_FILE_VERSION = 1;
+
+/**
+ * Progress file contents
+ */
+export interface ProgressFile {
+  format: typeof PROGRESS_FILE_FORMAT;
+  version: number;
+
+  /** ISO timestamp of the export */
+  exportedAt: string;
+
+  /** Machine the progress came from (hostname) */
+  machine: string;
+
+  progress: GlobalProgressState;
+}
+
+/**
+ * Changes an import would make to one lesson
+ */
+export interface ProgressChange {
+  lessonId: string;
+  changes: string[];
+}
+
+/**
+ * Error thrown when a progress file can't be read
+ */
+export class ProgressFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressFileError';
+  }
+}
+
+const STATUS_RANK: Record<ProgressStatus, number> = {
+  'not-started': 0,
+  'in-progress': 1,
+  'completed': 2,
+};
+
+/**
+ * Wrap progress in a versioned file
+ */
+export function createProgressFile(progress: GlobalProgressState, machine: string, now: Date = new Date()): ProgressFile {
+  return {
+    format: PROGRESS_FILE_FORMAT,
+    version: PROGRESS_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    machine,
+    progress,
+  };
+}
+
+/**
+ * Whether a value looks like stored lesson progress (totals, counts and
+ * times must be finite numbers, since they are added up and compared)
+ */
+function isGlobalProgressState(value: unknown): value is GlobalProgressState {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { lessons, lastSync, totalCompleted, totalInProgress, totalTimeSpent } = value as GlobalProgressState;
+  return typeof lessons === 'object' && lessons !== null &&
+    [lastSync, totalCompleted, totalInProgress, totalTimeSpent].every(Number.isFinite) &&
+    Object.values(lessons).every(lesson =>
+      typeof lesson === 'object' && lesson !== null &&
+      typeof lesson.status === 'string' && lesson.status in STATUS_RANK &&
+      Array.isArray(lesson.completedCommands) &&
+      [lesson.lastAccessed, lesson.timeSpentSeconds, lesson.viewCount].every(Number.isFinite) &&
+      (lesson.firstAccessed === undefined || Number.isFinite(lesson.firstAccessed))
+    );
+}
+
+/**
+ * Parse a progress file. Also accepts the unversioned output of
+ * ProgressTracker.exportProgress().
+ *
+ * @throws ProgressFileError if the file isn't valid progress
+ */
+export function parseProgressFile(text: string): ProgressFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ProgressFileError(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new ProgressFileError('Not a Tenstorrent progress file');
+  }
+
+  const file = data as Partial<ProgressFile>;
+  if (file.format === undefined && isGlobalProgressState(data)) {
+    return { format: PROGRESS_FILE_FORMAT, version: 0, exportedAt: '', machine: '', progress: data };
+  }
+
+  if (file.format !== PROGRESS_FILE_FORMAT) {
+    throw new ProgressFileError('Not a Tenstorrent progress file');
+  }
+  if (typeof file.version !== 'number' || file.version > PROGRESS_FILE_VERSION) {
+    throw new ProgressFileError(
+      `Unsupported progress file version ${file.version} (this extension reads up to version ${PROGRESS_FILE_VERSION}); update the extension`
+    );
+  }
+  if (!isGlobalProgressState(file.progress)) {
+    throw new ProgressFileError('Progress file has no valid lesson progress');
+  }
+
+  return {
+    format: PROGRESS_FILE_FORMAT,
+    version: file.version,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    machine: typeof file.machine === 'string' ? file.machine : '',
+    progress: file.progress,
+  };
+}
+
+/**
+ * Union of two lists, keeping first-seen order
+ */
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+/**
+ * Merge section notes, keeping the most recently edited note per anchor
+ */
+function mergeSectionNotes(
+  a: Record<string, SectionNote> | undefined,
+  b: Record<string, SectionNote> | undefined
+): Record<string, SectionNote> | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  const merged = { ...a };
+  for (const [anchor, note] of Object.entries(b)) {
+    if (!merged[anchor] || note.updatedAt > merged[anchor].updatedAt) {
+      merged[anchor] = note;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge one lesson's progress from two machines
+ */
+export function mergeLessonProgress(local: ProgressState, incoming: ProgressState): ProgressState {
+  const latest = incoming.lastAccessed > local.lastAccessed ? incoming : local;
+  const completedSteps = union(local.completedSteps, incoming.completedSteps);
+  const failedSteps = union(local.failedSteps, incoming.failedSteps).filter(key => !completedSteps.includes(key));
+  const firstAccessed = [local.firstAccessed, incoming.firstAccessed].filter((time): time is number => time !== undefined);
+
+  const merged: ProgressState = {
+    lessonId: local.lessonId,
+    status: STATUS_RANK[incoming.status] > STATUS_RANK[local.status] ? incoming.status : local.status,
+    completedCommands: union(local.completedCommands, incoming.completedCommands),
+    lastAccessed: Math.max(local.lastAccessed, incoming.lastAccessed),
+    timeSpentSeconds: Math.max(local.timeSpentSeconds, incoming.timeSpentSeconds),
+    viewCount: Math.max(local.viewCount, incoming.viewCount),
+  };
+
+  if (completedSteps.length > 0) {
+    merged.completedSteps = completedSteps;
+  }
+  if (failedSteps.length > 0) {
+    merged.failedSteps = failedSteps;
+  }
+  if (firstAccessed.length > 0) {
+    merged.firstAccessed = Math.min(...firstAccessed);
+  }
+
+  const notes = latest.notes ?? (latest === local ? incoming.notes : local.notes);
+  if (notes !== undefined) {
+    merged.notes = notes;
+  }
+  const sectionNotes = mergeSectionNotes(local.sectionNotes, incoming.sectionNotes);
+  if (sectionNotes) {
+    merged.sectionNotes = sectionNotes;
+  }
+
+  return merged;
+}
+
+/**
+ * Merge incoming progress into local progress. Totals are recomputed from
+ * the merged lessons.
+ */
+export function mergeProgress(
+  local: GlobalProgressState,
+  incoming: GlobalProgressState,
+  now: number = Date.now()
+): GlobalProgressState {
+  const lessons: Record<string, ProgressState> = { ...local.lessons };
+  for (const [lessonId, progress] of Object.entries(incoming.lessons)) {
+    lessons[lessonId] = lessons[lessonId]
+      ? mergeLessonProgress(lessons[lessonId], progress)
+      : { ...progress, lessonId };
+  }
+
+  return withTotals(lessons, now);
+}
+
+/**
+ * Global progress for a set of lessons, with totals computed from them
+ */
+export function withTotals(lessons: Record<string, ProgressState>, lastSync: number): GlobalProgressState {
+  const all = Object.values(lessons);
+  return {
+    lessons,
+    lastSync,
+    totalCompleted: all.filter(lesson => lesson.status === 'completed').length,
+    totalInProgress: all.filter(lesson => lesson.status === 'in-progress').length,
+    totalTimeSpent: all.reduce((total, lesson) => total + lesson.timeSpentSeconds, 0),
+  };
+}
+
+/**
+ * Describe what changes between two progress states, lesson by lesson
+ */
+export function diffProgress(before: GlobalProgressState, after: GlobalProgressState): ProgressChange[] {
+  const result: ProgressChange[] = [];
+
+  for (const [lessonId, next] of Object.entries(after.lessons)) {
+    const previous = before.lessons[lessonId];
+    if (!previous) {
+      result.push({ lessonId, changes: [`new (${next.status})`] });
+      continue;
+    }
+
+    const changes: string[] = [];
+    if (previous.status !== next.status) {
+      changes.push(`${previous.status} → ${next.status}`);
+    }
+    const newCommands = next.completedCommands.filter(id => !previous.completedCommands.includes(id)).length;
+    if (newCommands > 0) {
+      changes.push(`+${newCommands} command${newCommands === 1 ? '' : 's'}`);
+    }
+    const newSteps = (next.completedSteps ?? []).filter(key => !(previous.completedSteps ?? []).includes(key)).length;
+    if (newSteps > 0) {
+      changes.push(`+${newSteps} step${newSteps === 1 ? '' : 's'}`);
+    }
+    if (next.timeSpentSeconds !== previous.timeSpentSeconds) {
+      changes.push(`time ${Math.round(previous.timeSpentSeconds / 60)}m → ${Math.round(next.timeSpentSeconds / 60)}m`);
+    }
+    if (next.notes !== previous.notes || JSON.stringify(next.sectionNotes) !== JSON.stringify(previous.sectionNotes)) {
+      changes.push('notes updated');
+    }
+
+    if (changes.length > 0) {
+      result.push({ lessonId, changes });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * File name for a machine's progress in the sync folder
+ */
+export function progressFileName(machine: string): string {
+  const safe = machine.toLowerCase().replace(/[^a-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `progress-${safe || 'unknown'}.json`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Registry Generator
+ *
+ * Keeps lesson frontmatter and lesson-registry.json in agreement. The
+ * frontmatter of each lesson file is the source of truth for the fields it
+ * carries (see FRONTMATTER_FIELDS); the registry adds what frontmatter
+ * doesn't (order, prerequisites, completion events, sequence links).
+ *
+ * - generateRegistry() rebuilds the registry from the lesson files
+ * - findRegistryDrift() lists every field where the two disagree
+ *
+ * Run via `npm run registry:drift` / `npm run registry:generate`.
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import matter from 'gray-matter';
+import { LessonMetadata, LessonRegistry } from '../types';
+
+/**
+ * Lesson fields owned by frontmatter
+ */
+export const FRONTMATTER_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'category',
+  'tags',
+  'supportedHardware',
+  'status',
+  'estimatedMinutes',
+] as const;
+
+export type FrontmatterField = typeof FRONTMATTER_FIELDS[number];
+
+/**
+ * A lesson markdown file and its parsed frontmatter
+ */
+export interface LessonFile {
+  /** Path as used in the registry's markdownFile (e.g. "content/lessons/x.md") */
+  markdownFile: string;
+  frontmatter: Partial<Pick<LessonMetadata, FrontmatterField>>;
+}
+
+/**
+ * One disagreement between the registry and lesson frontmatter
+ */
+export type RegistryDrift =
+  | { kind: 'field'; lessonId: string; markdownFile: string; field: FrontmatterField; registry: unknown; frontmatter: unknown }
+  | { kind: 'not-in-registry'; lessonId: string; markdownFile: string }
+  | { kind: 'no-frontmatter'; lessonId: string; markdownFile: string };
+
+/**
+ * Parse a lesson file's frontmatter
+ */
+export function parseLessonFile(markdownFile: string, content: string): LessonFile {
+  const data = matter(content).data as Record<string, unknown>;
+  const frontmatter: Record<string, unknown> = {};
+  for (const field of FRONTMATTER_FIELDS) {
+    if (data[field] !== undefined) {
+      frontmatter[field] = data[field];
+    }
+  }
+  return { markdownFile, frontmatter };
+}
+
+/**
+ * Find the lesson file for a registry entry (by markdownFile, then by id)
+ */
+function fileFor(lesson: LessonMetadata, files: LessonFile[]): LessonFile | undefined {
+  return files.find(file => file.markdownFile === lesson.markdownFile)
+    ?? files.find(file => file.frontmatter.id === lesson.id);
+}
+
+/**
+ * Deep equality for JSON values
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * List every disagreement between the registry and lesson frontmatter
+ */
+export function findRegistryDrift(registry: LessonRegistry, files: LessonFile[]): RegistryDrift[] {
+  const drift: RegistryDrift[] = [];
+  const matched = new Set<LessonFile>();
+
+  for (const lesson of registry.lessons) {
+    const file = fileFor(lesson, files);
+    if (!file || Object.keys(file.frontmatter).length === 0) {
+      drift.push({ kind: 'no-frontmatter', lessonId: lesson.id, markdownFile: lesson.markdownFile });
+      continue;
+    }
+    matched.add(file);
+
+    for (const field of FRONTMATTER_FIELDS) {
+      if (!sameValue(lesson[field], file.frontmatter[field])) {
+        drift.push({
+          kind: 'field',
+          lessonId: lesson.id,
+          markdownFile: file.markdownFile,
+          field,
+          registry: lesson[field],
+          frontmatter: file.frontmatter[field],
+        });
+      }
+    }
+  }
+
+  for (const file of files) {
+    if (!matched.has(file) && file.frontmatter.id) {
+      drift.push({ kind: 'not-in-registry', lessonId: file.frontmatter.id, markdownFile: file.markdownFile });
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Rebuild the registry from lesson frontmatter.
+ *
+ * Existing entries keep their registry-only fields and take frontmatter
+ * values for the rest; lesson files not yet in the registry are appended at
+ * the end of their category. Entries without a lesson file are kept as-is
+ * (they show up in the drift report instead).
+ */
+export function generateRegistry(existing: LessonRegistry, files: LessonFile[]): LessonRegistry {
+  const lessons: LessonMetadata[] = existing.lessons.map(lesson => {
+    const file = fileFor(lesson, files);
+    return file ? { ...lesson, ...file.frontmatter } : lesson;
+  });
+
+  for (const file of files) {
+    const { id, category } = file.frontmatter;
+    if (!id || !category || lessons.some(lesson => lesson.id === id || lesson.markdownFile === file.markdownFile)) {
+      continue;
+    }
+
+    const order = Math.max(0, ...lessons.filter(lesson => lesson.category === category).map(lesson => lesson.order)) + 1;
+    lessons.push({
+      title: id,
+      description: '',
+      order,
+      markdownFile: file.markdownFile,
+      supportedHardware: [],
+      status: 'draft',
+      validatedOn: [],
+      completionEvents: [],
+      tags: [],
+      ...file.frontmatter,
+      id,
+      category,
+    });
+  }
+
+  return { ...existing, lessons };
+}
+
+/**
+ * Human-readable drift report, one line per disagreement
+ */
+export function formatDriftReport(drift: RegistryDrift[]): string {
+  if (drift.length === 0) {
+    return 'Lesson registry and frontmatter agree.';
+  }
+
+  const lines = drift.map(entry => {
+    switch (entry.kind) {
+      case 'field':
+        return `${entry.lessonId}.${entry.field}: registry ${JSON.stringify(entry.registry)} ≠ frontmatter ${JSON.stringify(entry.frontmatter)} (${entry.markdownFile})`;
+      case 'not-in-registry':
+        return `${entry.lessonId}: in ${entry.markdownFile} but not in the registry`;
+      case 'no-frontmatter':
+        return `${entry.lessonId}: ${entry.markdownFile} is missing or has no frontmatter`;
+    }
+  });
+
+  return [`${drift.length} difference(s) between lesson registry and frontmatter:`, ...lines].join('\n');
+}
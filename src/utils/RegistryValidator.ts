@@ -0,0 +1,351 @@
+/**
+ * Registry Validator
+ *
+ * Runtime validation of lesson-registry.json. Produces typed diagnostics
+ * for content authors instead of trusting a bare `JSON.parse` cast:
+ * - Structural problems (missing or mistyped fields)
+ * - Unknown categories, hardware types and statuses
+ * - Duplicate lesson IDs
+ * - Dangling lesson references (nextLesson, previousLesson, prerequisites)
+ * - Missing markdown files
+ * - Prerequisite cycles
+ * - Completion events naming commands the extension doesn't contribute
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import { BuiltinLessonCategory, HardwareType, LessonRegistry, LessonStatus } from '../types';
+
+/**
+ * Built-in categories (mirrors BuiltinLessonCategory)
+ */
+export const LESSON_CATEGORIES: readonly BuiltinLessonCategory[] = [
+  'welcome',
+  'first-inference',
+  'serving',
+  'compilers',
+  'applications',
+  'advanced',
+  'ecosystem',
+];
+
+const HARDWARE_TYPES: readonly HardwareType[] = ['n150', 'n300', 't3k', 'p100', 'p150', 'galaxy', 'simulator'];
+
+const LESSON_STATUSES: readonly LessonStatus[] = ['validated', 'draft', 'blocked'];
+
+/**
+ * Kinds of registry problems
+ */
+export type RegistryDiagnosticCode =
+  | 'invalid-schema'       // Wrong or missing field type
+  | 'unknown-category'     // Category not defined or not supported
+  | 'unknown-value'        // Unknown hardware type or status
+  | 'duplicate-id'         // Two lessons (or categories) share an ID
+  | 'dangling-reference'   // Reference to a lesson that doesn't exist
+  | 'missing-markdown'     // markdownFile does not exist
+  | 'prerequisite-cycle'   // Lessons require each other
+  | 'unknown-command';     // Completion event names an unknown command
+
+/**
+ * A single registry problem
+ */
+export interface RegistryDiagnostic {
+  code: RegistryDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+
+  /** Location in the registry, e.g. "lessons[3].prerequisites[0].lessonId" */
+  path: string;
+
+  /** Lesson the problem belongs to, if any */
+  lessonId?: string;
+}
+
+/**
+ * Environment checks the validator can't do on its own
+ */
+export interface RegistryValidationOptions {
+  /** Whether a lesson's markdownFile exists (skipped if omitted) */
+  fileExists?: (markdownFile: string) => boolean;
+
+  /** Command IDs the extension contributes (skipped if omitted) */
+  knownCommands?: Set<string>;
+
+  /** Accept categories beyond the built-in ones (external lesson packs) */
+  allowCustomCategories?: boolean;
+
+  /** Lessons defined elsewhere that references may point to (external lesson packs) */
+  externalLessonIds?: Set<string>;
+
+  /** Categories defined elsewhere that lessons may use (external lesson packs) */
+  externalCategoryIds?: Set<string>;
+}
+
+/**
+ * Validation outcome. `registry` is null when the document is too broken
+ * to load at all; otherwise it can be used even if diagnostics were found.
+ */
+export interface RegistryValidationResult {
+  registry: LessonRegistry | null;
+  diagnostics: RegistryDiagnostic[];
+}
+
+/**
+ * Completion event prefix used in the registry ("onCommand:<id>")
+ */
+const COMMAND_EVENT_PREFIX = 'onCommand:';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a parsed registry document
+ */
+export function validateRegistry(data: unknown, options: RegistryValidationOptions = {}): RegistryValidationResult {
+  const diagnostics: RegistryDiagnostic[] = [];
+  const report = (
+    code: RegistryDiagnosticCode,
+    path: string,
+    message: string,
+    lessonId?: string,
+    severity: RegistryDiagnostic['severity'] = 'error'
+  ) => diagnostics.push({ code, severity, message, path, lessonId });
+
+  if (!isObject(data)) {
+    report('invalid-schema', '', 'Registry must be a JSON object');
+    return { registry: null, diagnostics };
+  }
+  if (typeof data.version !== 'string') {
+    report('invalid-schema', 'version', 'Registry "version" must be a string');
+  }
+  if (!Array.isArray(data.categories) || !Array.isArray(data.lessons)) {
+    report('invalid-schema', '', 'Registry must have "categories" and "lessons" arrays');
+    return { registry: null, diagnostics };
+  }
+
+  // Categories
+  const categoryIds = new Set<string>();
+  data.categories.forEach((category: unknown, i) => {
+    const path = `categories[${i}]`;
+    if (!isObject(category) || typeof category.id !== 'string' || typeof category.title !== 'string') {
+      report('invalid-schema', path, 'Category must have string "id" and "title"');
+      return;
+    }
+    if (categoryIds.has(category.id)) {
+      report('duplicate-id', `${path}.id`, `Duplicate category ID "${category.id}"`);
+    }
+    categoryIds.add(category.id);
+    if (!options.allowCustomCategories && !LESSON_CATEGORIES.includes(category.id as BuiltinLessonCategory)) {
+      report('unknown-category', `${path}.id`, `Category "${category.id}" is not a supported category (${LESSON_CATEGORIES.join(', ')})`);
+    }
+  });
+
+  // Lessons: shape, IDs and per-field values
+  const lessonIds = new Set<string>();
+  const lessons = data.lessons as unknown[];
+
+  lessons.forEach((lesson, i) => {
+    const path = `lessons[${i}]`;
+    if (!isObject(lesson) || typeof lesson.id !== 'string') {
+      report('invalid-schema', path, 'Lesson must be an object with a string "id"');
+      return;
+    }
+
+    const id = lesson.id;
+    if (lessonIds.has(id)) {
+      report('duplicate-id', `${path}.id`, `Duplicate lesson ID "${id}"`, id);
+    }
+    lessonIds.add(id);
+
+    for (const field of ['title', 'description', 'category', 'markdownFile', 'status']) {
+      if (typeof lesson[field] !== 'string') {
+        report('invalid-schema', `${path}.${field}`, `Lesson "${id}": "${field}" must be a string`, id);
+      }
+    }
+    if (typeof lesson.order !== 'number') {
+      report('invalid-schema', `${path}.order`, `Lesson "${id}": "order" must be a number`, id);
+    }
+    for (const field of ['supportedHardware', 'validatedOn', 'completionEvents', 'tags']) {
+      const value = lesson[field];
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        report('invalid-schema', `${path}.${field}`, `Lesson "${id}": "${field}" must be an array of strings`, id);
+      }
+    }
+
+    if (typeof lesson.category === 'string' && !categoryIds.has(lesson.category) && !options.externalCategoryIds?.has(lesson.category)) {
+      report('unknown-category', `${path}.category`, `Lesson "${id}": category "${lesson.category}" is not defined in "categories"`, id);
+    }
+    if (typeof lesson.status === 'string' && !LESSON_STATUSES.includes(lesson.status as LessonStatus)) {
+      report('unknown-value', `${path}.status`, `Lesson "${id}": unknown status "${lesson.status}"`, id);
+    }
+    for (const field of ['supportedHardware', 'validatedOn']) {
+      const value = lesson[field];
+      for (const hw of Array.isArray(value) ? value : []) {
+        if (typeof hw === 'string' && !HARDWARE_TYPES.includes(hw as HardwareType)) {
+          report('unknown-value', `${path}.${field}`, `Lesson "${id}": unknown hardware type "${hw}" in "${field}"`, id);
+        }
+      }
+    }
+
+    if (options.fileExists && typeof lesson.markdownFile === 'string' && !options.fileExists(lesson.markdownFile)) {
+      report('missing-markdown', `${path}.markdownFile`, `Lesson "${id}": markdown file "${lesson.markdownFile}" not found`, id);
+    }
+
+    if (options.knownCommands && Array.isArray(lesson.completionEvents)) {
+      lesson.completionEvents.forEach((event: unknown, j) => {
+        if (typeof event !== 'string') {
+          return;
+        }
+        const command = event.startsWith(COMMAND_EVENT_PREFIX) ? event.slice(COMMAND_EVENT_PREFIX.length) : event;
+        if (!options.knownCommands!.has(command)) {
+          report(
+            'unknown-command',
+            `${path}.completionEvents[${j}]`,
+            `Lesson "${id}": completion event "${event}" refers to unknown command "${command}"`,
+            id,
+            'warning'
+          );
+        }
+      });
+    }
+  });
+
+  // References between lessons (needs the full ID set)
+  const prerequisiteGraph = new Map<string, string[]>();
+  const isKnownLesson = (ref: string) => lessonIds.has(ref) || (options.externalLessonIds?.has(ref) ?? false);
+
+  lessons.forEach((lesson, i) => {
+    if (!isObject(lesson) || typeof lesson.id !== 'string') {
+      return;
+    }
+    const id = lesson.id;
+    const path = `lessons[${i}]`;
+
+    for (const field of ['previousLesson', 'nextLesson']) {
+      const ref = lesson[field];
+      if (ref === undefined) {
+        continue;
+      }
+      if (typeof ref !== 'string') {
+        report('invalid-schema', `${path}.${field}`, `Lesson "${id}": "${field}" must be a string`, id);
+      } else if (!isKnownLesson(ref)) {
+        report('dangling-reference', `${path}.${field}`, `Lesson "${id}": ${field} "${ref}" does not exist`, id);
+      }
+    }
+
+    if (lesson.prerequisites === undefined) {
+      return;
+    }
+    if (!Array.isArray(lesson.prerequisites)) {
+      report('invalid-schema', `${path}.prerequisites`, `Lesson "${id}": "prerequisites" must be an array`, id);
+      return;
+    }
+
+    const edges: string[] = [];
+    lesson.prerequisites.forEach((prereq: unknown, j) => {
+      const prereqPath = `${path}.prerequisites[${j}]`;
+      if (!isObject(prereq) || typeof prereq.lessonId !== 'string' || typeof prereq.required !== 'boolean') {
+        report('invalid-schema', prereqPath, `Lesson "${id}": prerequisite must have string "lessonId" and boolean "required"`, id);
+        return;
+      }
+      if (!isKnownLesson(prereq.lessonId)) {
+        report('dangling-reference', `${prereqPath}.lessonId`, `Lesson "${id}": prerequisite "${prereq.lessonId}" does not exist`, id);
+        return;
+      }
+      edges.push(prereq.lessonId);
+    });
+    prerequisiteGraph.set(id, edges);
+  });
+
+  for (const cycle of findCycles(prerequisiteGraph)) {
+    const index = lessons.findIndex(lesson => isObject(lesson) && lesson.id === cycle[0]);
+    report(
+      'prerequisite-cycle',
+      `lessons[${index}].prerequisites`,
+      `Prerequisite cycle: ${cycle.join(' → ')}`,
+      cycle[0]
+    );
+  }
+
+  return { registry: data as unknown as LessonRegistry, diagnostics };
+}
+
+/**
+ * Find each distinct cycle in a dependency graph (lesson → its prerequisites).
+ * Each cycle is returned once, starting and ending at the same lesson.
+ */
+function findCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    if (done.has(id)) {
+      return;
+    }
+    const onStack = stack.indexOf(id);
+    if (onStack >= 0) {
+      const cycle = [...stack.slice(onStack), id];
+      const key = [...cycle.slice(0, -1)].sort().join('|');
+      if (!seen.has(key)) {
+        seen.add(key);
+        cycles.push(cycle);
+      }
+      return;
+    }
+
+    stack.push(id);
+    for (const next of graph.get(id) ?? []) {
+      visit(next);
+    }
+    stack.pop();
+    done.add(id);
+  };
+
+  for (const id of graph.keys()) {
+    visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Best-effort position of a diagnostic in the registry source text
+ * (0-based line and character), for the Problems panel.
+ *
+ * Finds the lesson by its `"id"` entry, then the last named key in the
+ * diagnostic path within that lesson. Falls back to the lesson, then the
+ * top of the file.
+ */
+export function locateDiagnostic(text: string, diagnostic: RegistryDiagnostic): { line: number; character: number } {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let offset = 0;
+
+  const idMatch = diagnostic.lessonId
+    ? new RegExp(`"id"\\s*:\\s*"${escape(diagnostic.lessonId)}"`).exec(text)
+    : null;
+
+  if (idMatch) {
+    offset = idMatch.index;
+
+    // Search for the field up to the next object's "id"
+    const keys = diagnostic.path.match(/[A-Za-z]+/g) ?? [];
+    const key = keys[keys.length - 1];
+    if (key && key !== 'lessons' && key !== 'id') {
+      const rest = text.slice(offset);
+      const nextId = /"id"\s*:/g;
+      nextId.lastIndex = idMatch[0].length;
+      const end = nextId.exec(rest)?.index ?? rest.length;
+      const keyIndex = rest.slice(0, end).search(new RegExp(`"${key}"\\s*:`));
+      if (keyIndex >= 0) {
+        offset += keyIndex;
+      }
+    }
+  }
+
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length - 1, character: before[before.length - 1].length };
+}
@@ -0,0 +1,106 @@
+/**
+ * Runnable Code Blocks
+ *
+ * Parses fenced code block info strings that mark a block as runnable
+ * from the lesson webview, and flags commands that need confirmation
+ * before they are sent to a terminal.
+ *
+ *   ```bash run                          → Run button, default terminal
+ *   ```bash {terminal=vllm-server}       → Run button, vLLM server terminal
+ *   ```bash run {terminal=tt-metal}      → both forms combined
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+/**
+ * Terminal used when a runnable block doesn't name one
+ */
+export const DEFAULT_RUN_TERMINAL = 'explore';
+
+/**
+ * Parsed fence info string
+ */
+export interface FenceInfo {
+  /** Language (first word), e.g. "bash" */
+  language: string;
+
+  /** Whether the block gets a Run button */
+  runnable: boolean;
+
+  /** Terminal context to run in (runnable blocks only) */
+  terminal?: string;
+}
+
+/**
+ * Whether the code has an `rm` with both recursive and force options
+ * (rm -rf, rm -fr, rm -r -f, rm --recursive --force, ...)
+ */
+function hasForcedRecursiveRm(code: string): boolean {
+  const rmCommands = code.matchAll(/(?:^|[\s;&|(`])rm((?:\s+-{1,2}[a-zA-Z-]+)+)/gm);
+  for (const [, options] of rmCommands) {
+    const recursive = /(^|\s)-[a-zA-Z]*[rR]|--recursive\b/.test(options);
+    const force = /(^|\s)-[a-zA-Z]*f|--force\b/.test(options);
+    if (recursive && force) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Commands that need confirmation before running
+ */
+const DANGEROUS_CHECKS: { test: (code: string) => boolean; description: string }[] = [
+  {
+    test: code => /(?:^|[\s;&|(`])sudo\s/m.test(code),
+    description: 'runs commands as root (sudo)',
+  },
+  {
+    test: hasForcedRecursiveRm,
+    description: 'deletes files recursively (rm -rf)',
+  },
+  {
+    test: code =>
+      /\b(curl|wget)\b[^\n|]*\|\s*(sudo\s+)?(ba|z)?sh\b/m.test(code) ||
+      /\b(ba|z)?sh\s+-c\s+["']?\$\(\s*(curl|wget)\b/m.test(code),
+    description: 'pipes a downloaded script into a shell (curl | bash)',
+  },
+];
+
+/**
+ * Parse a fence info string (everything after the opening ```)
+ */
+export function parseFenceInfo(info: string | undefined): FenceInfo {
+  const trimmed = (info ?? '').trim();
+  const attributes: Record<string, string> = {};
+
+  // {key=value key2=value2} (commas also accepted as separators)
+  const withoutAttributes = trimmed.replace(/\{([^}]*)\}/g, (_, body: string) => {
+    for (const pair of body.split(/[\s,]+/)) {
+      const [key, ...value] = pair.split('=');
+      if (key) {
+        attributes[key.trim()] = value.join('=').trim().replace(/^["']|["']$/g, '');
+      }
+    }
+    return ' ';
+  });
+
+  const [language = '', ...flags] = withoutAttributes.split(/\s+/).filter(Boolean);
+  const terminal = attributes.terminal || undefined;
+  const runnable = flags.includes('run') || terminal !== undefined;
+
+  return {
+    language,
+    runnable,
+    terminal: runnable ? terminal ?? DEFAULT_RUN_TERMINAL : undefined,
+  };
+}
+
+/**
+ * Describe why a block needs confirmation (empty if it doesn't)
+ */
+export function findDangerousCommands(code: string): string[] {
+  return DANGEROUS_CHECKS
+    .filter(({ test }) => test(code))
+    .map(({ description }) => description);
+}
@@ -0,0 +1,170 @@
+/**
+ * Session Timer
+ *
+ * Measures time actually spent on a lesson. Time only counts while the
+ * lesson is visible, the VSCode window is focused and the user has been
+ * active recently (after IDLE_TIMEOUT_MS without activity the session is
+ * idle until the next activity). Time is reported in increments of at most
+ * FLUSH_INTERVAL_MS, so little is lost if VSCode exits without ending the
+ * session.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested (the clock is
+ * injected).
+ */
+
+/**
+ * No activity for this long makes the session idle (ms)
+ */
+export const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * How often counted time is reported (ms)
+ */
+export const FLUSH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Time source and repeating timer
+ */
+export interface SessionClock {
+  now(): number;
+
+  /** Call `callback` every `ms`; returns a function that stops it */
+  every(ms: number, callback: () => void): () => void;
+}
+
+/**
+ * Wall clock and setInterval
+ */
+export const systemClock: SessionClock = {
+  now: () => Date.now(),
+  every: (ms, callback) => {
+    const handle = setInterval(callback, ms);
+    return () => clearInterval(handle);
+  },
+};
+
+/**
+ * Tracks active time for one lesson at a time
+ */
+export class SessionTimer {
+  private lessonId: string | undefined;
+  private visible = true;
+  private focused = true;
+
+  /** Time up to which the session has been accounted for */
+  private countedUntil = 0;
+  private lastActivity = 0;
+
+  /** Counted time not yet reported (ms) */
+  private pendingMs = 0;
+
+  private stopFlushing: (() => void) | undefined;
+
+  /**
+   * @param onTime - Called with whole seconds of active time for a lesson
+   * @param clock - Time source (injected by tests)
+   */
+  constructor(
+    private readonly onTime: (lessonId: string, seconds: number) => void,
+    private readonly clock: SessionClock = systemClock
+  ) {}
+
+  /**
+   * Lesson being timed, if any
+   */
+  get currentLesson(): string | undefined {
+    return this.lessonId;
+  }
+
+  /**
+   * Start timing a lesson (ends the current session first)
+   */
+  start(lessonId: string): void {
+    this.stop();
+
+    const now = this.clock.now();
+    this.lessonId = lessonId;
+    this.visible = true;
+    this.countedUntil = now;
+    this.lastActivity = now;
+    this.pendingMs = 0;
+    this.stopFlushing = this.clock.every(FLUSH_INTERVAL_MS, () => this.flush(false));
+  }
+
+  /**
+   * End the session, reporting any remaining time
+   */
+  stop(): void {
+    if (!this.lessonId) {
+      return;
+    }
+    this.flush(true);
+    this.stopFlushing?.();
+    this.stopFlushing = undefined;
+    this.lessonId = undefined;
+  }
+
+  /**
+   * Lesson panel shown or hidden. Showing it counts as activity.
+   */
+  setVisible(visible: boolean): void {
+    this.accumulate();
+    this.visible = visible;
+    if (visible) {
+      this.lastActivity = this.clock.now();
+    }
+  }
+
+  /**
+   * VSCode window gained or lost focus. Gaining focus counts as activity.
+   */
+  setFocused(focused: boolean): void {
+    this.accumulate();
+    this.focused = focused;
+    if (focused) {
+      this.lastActivity = this.clock.now();
+    }
+  }
+
+  /**
+   * User did something in the lesson (scrolled, clicked, typed)
+   */
+  activity(): void {
+    // Count up to now first, so an idle gap isn't counted retroactively
+    this.accumulate();
+    this.lastActivity = this.clock.now();
+  }
+
+  /**
+   * Add active time since the last accounting to pendingMs
+   */
+  private accumulate(): void {
+    const now = this.clock.now();
+    if (this.lessonId && this.visible && this.focused) {
+      const end = Math.min(now, this.lastActivity + IDLE_TIMEOUT_MS);
+      if (end > this.countedUntil) {
+        this.pendingMs += end - this.countedUntil;
+      }
+    }
+    this.countedUntil = now;
+  }
+
+  /**
+   * Report whole seconds of pending time (rounded when the session ends)
+   */
+  private flush(final: boolean): void {
+    this.accumulate();
+    const seconds = final ? Math.round(this.pendingMs / 1000) : Math.floor(this.pendingMs / 1000);
+    this.pendingMs = Math.max(0, this.pendingMs - seconds * 1000);
+    if (this.lessonId && seconds > 0) {
+      this.onTime(this.lessonId, seconds);
+    }
+  }
+
+  /**
+   * Stop timing (reports remaining time)
+   */
+  dispose(): void {
+    this.stop();
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Terminal Sessions
+ *
+ * What each context terminal is doing: whether it's open, the command
+ * running in it and since when, and how the last command ended. Fed from
+ * terminal and shell integration events; shown in the Tenstorrent
+ * Terminals view.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested (the clock is
+ * injected).
+ */
+
+/**
+ * Whether a terminal is open and busy. 'unknown' means a command was sent
+ * to it without a way to observe when it ends (no shell integration).
+ */
+export type TerminalSessionState = 'closed' | 'idle' | 'running' | 'unknown';
+
+/**
+ * How a command ended
+ */
+export interface TerminalCommandExit {
+  command: string;
+
+  /** Undefined if unknown, e.g. the terminal was closed while it ran */
+  exitCode?: number;
+
+  endedAt: number;
+}
+
+/**
+ * One context terminal
+ */
+export interface TerminalSession {
+  state: TerminalSessionState;
+
+  /** Environment profile the terminal was created with */
+  profile?: string;
+
+  /** Command running (or sent, if unknown), with its start time (ms since epoch) */
+  command?: string;
+  startedAt?: number;
+
+  lastExit?: TerminalCommandExit;
+}
+
+/**
+ * Tracks the sessions of the context terminals
+ */
+export class TerminalSessions<Key extends string> {
+  private readonly sessions = new Map<Key, TerminalSession>();
+
+  /**
+   * @param onChange - Called after a session changes
+   * @param now - Time source (injected by tests)
+   */
+  constructor(
+    private readonly onChange: (key: Key) => void = () => undefined,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Session of a terminal (closed if never opened)
+   */
+  get(key: Key): TerminalSession {
+    return this.sessions.get(key) ?? { state: 'closed' };
+  }
+
+  /**
+   * Terminal created
+   */
+  opened(key: Key, profile?: string): void {
+    this.update(key, { ...this.get(key), state: 'idle', profile, command: undefined, startedAt: undefined });
+  }
+
+  /**
+   * Command started in the terminal (replaces one still marked running,
+   * whose end wasn't observed)
+   */
+  commandStarted(key: Key, command: string): void {
+    this.update(key, { ...this.get(key), state: 'running', command, startedAt: this.now() });
+  }
+
+  /**
+   * Command sent to the terminal whose end can't be observed
+   */
+  commandSent(key: Key, command: string): void {
+    this.update(key, { ...this.get(key), state: 'unknown', command, startedAt: this.now() });
+  }
+
+  /**
+   * Running command finished
+   */
+  commandEnded(key: Key, exitCode?: number): void {
+    const session = this.get(key);
+    if (session.state !== 'running' || session.command === undefined) {
+      return;
+    }
+    this.update(key, {
+      ...session,
+      state: 'idle',
+      command: undefined,
+      startedAt: undefined,
+      lastExit: { command: session.command, exitCode, endedAt: this.now() },
+    });
+  }
+
+  /**
+   * Terminal closed or killed. A command still running (or sent) ends with an unknown exit code.
+   */
+  closed(key: Key): void {
+    const session = this.get(key);
+    if (session.state === 'closed') {
+      return;
+    }
+    this.update(key, {
+      state: 'closed',
+      profile: session.profile,
+      lastExit: session.command !== undefined
+        ? { command: session.command, endedAt: this.now() }
+        : session.lastExit,
+    });
+  }
+
+  private update(key: Key, session: TerminalSession): void {
+    this.sessions.set(key, session);
+    this.onChange(key);
+  }
+}
+
+/**
+ * First line of a command, shortened to `maxLength` characters
+ */
+export function shortenCommand(command: string, maxLength: number = 50): string {
+  const firstLine = command.split('\n')[0].trim();
+  return firstLine.length > maxLength ? `${firstLine.slice(0, maxLength - 1)}…` : firstLine;
+}
+
+/**
+ * Local time as HH:MM
+ */
+export function formatClockTime(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * How a command ended, e.g. "exit 0" ("exit ?" if unknown)
+ */
+export function describeExit(exit: TerminalCommandExit): string {
+  return `exit ${exit.exitCode ?? '?'}`;
+}
+
+/**
+ * One-line status of a session for tree items
+ */
+export function describeSession(session: TerminalSession): string {
+  switch (session.state) {
+    case 'running':
+      return `${shortenCommand(session.command ?? '')} · since ${formatClockTime(session.startedAt ?? 0)}`;
+    case 'unknown':
+      return `${shortenCommand(session.command ?? '')} · sent ${formatClockTime(session.startedAt ?? 0)} · status unknown`;
+    case 'idle':
+      return session.lastExit ? `idle · last ${describeExit(session.lastExit)}` : 'idle';
+    case 'closed':
+      return 'not running';
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Toolchain Paths
+ *
+ * Where tt-metal, vLLM, TT-Forge, the venvs, tt-inference-server, models
+ * and the scratchpad live. Each can be set with a `tenstorrent.paths.*`
+ * setting (e.g. shared installs under /opt, scratch on an NVMe disk);
+ * unset paths fall back to the defaults under ~. tt-metal also falls back
+ * to the location chosen when cloning it.
+ *
+ * Kept free of VSCode dependencies so it can be unit tested.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateVariable } from './CommandTemplateEngine';
+
+/**
+ * Configurable toolchain paths (the `tenstorrent.paths.<key>` setting names)
+ */
+export type ToolchainPathKey =
+  | 'ttMetal'
+  | 'vllm'
+  | 'vllmVenv'
+  | 'forge'
+  | 'forgeVenv'
+  | 'xlaVenv'
+  | 'inferenceServer'
+  | 'models'
+  | 'scratchpad';
+
+/**
+ * Default and description of a toolchain path
+ */
+export interface ToolchainPathInfo {
+  /** Used when the setting is empty */
+  default: string;
+
+  description: string;
+
+  /** Command template variable holding the path */
+  variable: string;
+}
+
+/**
+ * All toolchain paths
+ */
+export const TOOLCHAIN_PATHS: Record<ToolchainPathKey, ToolchainPathInfo> = {
+  ttMetal: { default: '~/tt-metal', description: 'tt-metal directory', variable: 'ttMetalPath' },
+  vllm: { default: '~/tt-vllm', description: 'TT vLLM checkout', variable: 'vllmPath' },
+  vllmVenv: { default: '~/tt-vllm-venv', description: 'vLLM virtual environment', variable: 'vllmVenvPath' },
+  forge: { default: '~/tt-forge-fe', description: 'TT-Forge source checkout', variable: 'forgePath' },
+  forgeVenv: { default: '~/tt-forge-venv', description: 'TT-Forge virtual environment', variable: 'forgeVenvPath' },
+  xlaVenv: { default: '~/tt-xla-venv', description: 'TT-XLA virtual environment', variable: 'xlaVenvPath' },
+  inferenceServer: {
+    default: '~/.local/lib/tt-inference-server',
+    description: 'tt-inference-server directory',
+    variable: 'inferenceServerPath',
+  },
+  models: { default: '~/models', description: 'models directory', variable: 'modelsPath' },
+  scratchpad: { default: '~/tt-scratchpad', description: 'scratchpad directory', variable: 'scratchpadPath' },
+};
+
+/**
+ * Where a resolved path came from
+ */
+export type ToolchainPathSource = 'setting' | 'stored' | 'default';
+
+/**
+ * A resolved toolchain path. `value` may start with `~/` (commands leave
+ * it for the shell to expand; use expandHome for file system access).
+ */
+export interface ResolvedToolchainPath {
+  value: string;
+  source: ToolchainPathSource;
+}
+
+export type ToolchainPaths = Record<ToolchainPathKey, ResolvedToolchainPath>;
+
+/**
+ * Inputs to resolveToolchainPaths
+ */
+export interface ToolchainPathSources {
+  /** `tenstorrent.paths.*` settings by key (empty means unset) */
+  settings?: Partial<Record<ToolchainPathKey, string | undefined>>;
+
+  /** tt-metal location chosen when cloning it */
+  storedTtMetalPath?: string;
+}
+
+/**
+ * A configured path that can't be used as given
+ */
+export interface ToolchainPathProblem {
+  key: ToolchainPathKey;
+  value: string;
+  problem: string;
+}
+
+/**
+ * Trim a configured path and drop trailing slashes
+ */
+function normalizePath(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length > 1 ? trimmed.replace(/\/+$/, '') || '/' : trimmed;
+}
+
+/**
+ * Resolve every toolchain path: setting, then (for tt-metal) the stored
+ * clone location, then the default
+ */
+export function resolveToolchainPaths(sources: ToolchainPathSources = {}): ToolchainPaths {
+  const resolved = {} as ToolchainPaths;
+
+  for (const [key, info] of Object.entries(TOOLCHAIN_PATHS) as [ToolchainPathKey, ToolchainPathInfo][]) {
+    const setting = normalizePath(sources.settings?.[key] ?? '');
+    const stored = key === 'ttMetal' ? normalizePath(sources.storedTtMetalPath ?? '') : '';
+
+    resolved[key] = setting
+      ? { value: setting, source: 'setting' }
+      : stored
+        ? { value: stored, source: 'stored' }
+        : { value: info.default, source: 'default' };
+  }
+  return resolved;
+}
+
+/**
+ * Expand a leading `~` to the home directory
+ */
+export function expandHome(value: string, homeDir: string = os.homedir()): string {
+  return value === '~' || value.startsWith('~/') ? path.join(homeDir, value.slice(1)) : value;
+}
+
+/**
+ * Command template values for the paths (by template variable)
+ */
+export function toolchainTemplateValues(paths: ToolchainPaths): Record<string, string> {
+  return Object.fromEntries(
+    (Object.keys(TOOLCHAIN_PATHS) as ToolchainPathKey[]).map(key => [TOOLCHAIN_PATHS[key].variable, paths[key].value])
+  );
+}
+
+/**
+ * Template variable declarations for toolchain paths (defaulting to the
+ * default locations)
+ */
+export function pathVariables(...keys: ToolchainPathKey[]): Record<string, TemplateVariable> {
+  return Object.fromEntries(keys.map(key => {
+    const info = TOOLCHAIN_PATHS[key];
+    return [info.variable, { type: 'path', description: info.description, default: info.default }];
+  }));
+}
+
+/**
+ * Problems with paths set in settings: relative paths (commands run in
+ * varying directories) and paths that don't exist. Defaults aren't checked,
+ * since they don't exist until the lesson that installs them has run.
+ *
+ * @param exists - Whether an absolute path exists
+ */
+export function findToolchainPathProblems(
+  paths: ToolchainPaths,
+  exists: (absolutePath: string) => boolean,
+  homeDir: string = os.homedir()
+): ToolchainPathProblem[] {
+  const problems: ToolchainPathProblem[] = [];
+
+  for (const key of Object.keys(TOOLCHAIN_PATHS) as ToolchainPathKey[]) {
+    const { value, source } = paths[key];
+    if (source !== 'setting') {
+      continue;
+    }
+
+    const absolute = expandHome(value, homeDir);
+    if (!path.isAbsolute(absolute)) {
+      problems.push({ key, value, problem: 'is not an absolute path (or ~/...)' });
+    } else if (!exists(absolute)) {
+      problems.push({ key, value, problem: "doesn't exist" });
+    }
+  }
+  return problems;
+}
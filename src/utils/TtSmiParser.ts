@@ -0,0 +1,333 @@
+/**
+ * tt-smi Parser
+ *
+ * Parses the structured JSON snapshot produced by `tt-smi -s` into a typed
+ * DeviceInventory and infers the system topology (n150, n300, T3K, ...).
+ *
+ * Kept free of VSCode dependencies so it can be unit tested against captured
+ * snapshots without hardware.
+ */
+
+import {
+  ChipArchitecture,
+  ChipInfo,
+  DeviceInventory,
+  HardwareType,
+  HostInfo,
+} from '../types';
+
+/**
+ * Error thrown when tt-smi output cannot be parsed as a JSON snapshot
+ */
+export class TtSmiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TtSmiParseError';
+  }
+}
+
+/**
+ * Number of Wormhole chips in a T3K system (4 x n300)
+ */
+const T3K_CHIP_COUNT = 8;
+
+/**
+ * Number of Wormhole chips in a Galaxy system
+ */
+const GALAXY_CHIP_COUNT = 32;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A nested block of a snapshot object (empty if missing or not an object)
+ */
+function getBlock(parent: JsonObject, key: string): JsonObject {
+  const value = parent[key];
+  return isObject(value) ? value : {};
+}
+
+/**
+ * Parse raw `tt-smi -s` output into a device inventory.
+ *
+ * The output may contain log lines before or after the JSON document,
+ * so the outermost JSON object is extracted first. device_info entries
+ * that aren't objects are skipped.
+ *
+ * @param output - Raw stdout/stderr from `tt-smi -s`
+ * @throws TtSmiParseError if no valid JSON snapshot is found
+ */
+export function parseTtSmiSnapshot(output: string): DeviceInventory {
+  const jsonMatch = output.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new TtSmiParseError('No JSON object found in tt-smi output');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    throw new TtSmiParseError(
+      `Invalid JSON in tt-smi output: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!isObject(data) || !Array.isArray(data.device_info)) {
+    throw new TtSmiParseError('tt-smi snapshot has no device_info array');
+  }
+
+  const chips = data.device_info.flatMap((device: unknown, index: number) => {
+    const chip = parseChip(device, index);
+    return chip ? [chip] : [];
+  });
+  const boardIds = new Set(chips.map(chip => chip.boardId ?? `chip-${chip.index}`));
+
+  return {
+    chips,
+    boardCount: boardIds.size,
+    hardwareType: inferHardwareType(chips),
+    host: parseHostInfo(data.host_info),
+    snapshotTime: typeof data.time === 'string' ? data.time : null,
+  };
+}
+
+/**
+ * Parse a single device_info entry (null if it isn't an object)
+ */
+function parseChip(device: unknown, index: number): ChipInfo | null {
+  if (!isObject(device)) {
+    return null;
+  }
+
+  const boardInfo = getBlock(device, 'board_info');
+  const telemetry = getBlock(device, 'telemetry');
+  const smbus = getBlock(device, 'smbus_telem');
+  const firmwares = getBlock(device, 'firmwares');
+  const limits = getBlock(device, 'limits');
+
+  const boardType = typeof boardInfo.board_type === 'string' ? boardInfo.board_type.trim() : '';
+  const boardModel = normalizeBoardModel(boardType);
+  const busId = toText(boardInfo.bus_id);
+  const pciBusId = busId && busId.toUpperCase() !== 'N/A' ? busId : null;
+
+  return {
+    index,
+    boardType,
+    boardModel,
+    chipPosition: parseChipPosition(boardType),
+    architecture: inferArchitecture(boardType),
+    boardId: toText(boardInfo.board_id),
+    pciBusId,
+    isRemote: pciBusId === null,
+    coords: toText(boardInfo.coords),
+    firmwareBundle: toText(firmwares.fw_bundle_version),
+    firmwares: collectFirmwares(firmwares),
+    dramStatus: toBoolean(boardInfo.dram_status),
+    dramSpeed: toText(boardInfo.dram_speed),
+    temperatures: {
+      asic: toNumber(telemetry.asic_temperature),
+      vreg: decodeSmbusTemperature(smbus.VREG_TEMPERATURE, 0xffff),
+      board: decodeSmbusTemperature(smbus.BOARD_TEMPERATURE, 0xff),
+    },
+    telemetry: {
+      voltage: toNumber(telemetry.voltage),
+      current: toNumber(telemetry.current),
+      power: toNumber(telemetry.power),
+      aiclk: toNumber(telemetry.aiclk),
+      arcHeartbeat: toNumber(telemetry.heartbeat),
+    },
+    limits: {
+      thermalLimit: toNumber(limits.thm_limit),
+      tdpLimit: toNumber(limits.tdp_limit),
+      tdcLimit: toNumber(limits.tdc_limit),
+      vddMin: toNumber(limits.vdd_min),
+      vddMax: toNumber(limits.vdd_max),
+      asicFmax: toNumber(limits.asic_fmax),
+    },
+  };
+}
+
+/**
+ * Parse host_info block
+ */
+function parseHostInfo(hostInfo: unknown): HostInfo | null {
+  if (!isObject(hostInfo)) {
+    return null;
+  }
+
+  return {
+    hostname: toText(hostInfo.Hostname),
+    os: toText(hostInfo.OS),
+    distro: toText(hostInfo.Distro),
+    kernel: toText(hostInfo.Kernel),
+    driver: toText(hostInfo.Driver),
+  };
+}
+
+/**
+ * Normalize a tt-smi board type (e.g., "n300 L", "p150b") to a HardwareType
+ */
+export function normalizeBoardModel(boardType: string): HardwareType | null {
+  const lower = boardType.toLowerCase();
+
+  if (lower.includes('galaxy')) {
+    return 'galaxy';
+  }
+
+  const match = lower.match(/^(n150|n300|p100|p150)/);
+  return match ? (match[1] as HardwareType) : null;
+}
+
+/**
+ * Infer chip architecture from board type
+ */
+function inferArchitecture(boardType: string): ChipArchitecture {
+  const lower = boardType.toLowerCase();
+  if (lower.startsWith('n') || lower.includes('galaxy')) {
+    return 'wormhole';
+  }
+  if (lower.startsWith('p')) {
+    return 'blackhole';
+  }
+  return 'unknown';
+}
+
+/**
+ * Extract the chip position suffix ("L"/"R") from a board type
+ */
+function parseChipPosition(boardType: string): string | null {
+  const match = boardType.match(/\s+([LR])$/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Infer the system topology from the set of chips.
+ *
+ * - 32+ Wormhole chips (or a Galaxy board) → galaxy
+ * - 8+ n300 chips → t3k
+ * - Otherwise the most capable board model present
+ */
+export function inferHardwareType(chips: ChipInfo[]): HardwareType | null {
+  if (chips.length === 0) {
+    return null;
+  }
+
+  const models = new Set(chips.map(chip => chip.boardModel));
+  const wormholeCount = chips.filter(chip => chip.architecture === 'wormhole').length;
+
+  if (models.has('galaxy') || wormholeCount >= GALAXY_CHIP_COUNT) {
+    return 'galaxy';
+  }
+
+  const n300Count = chips.filter(chip => chip.boardModel === 'n300').length;
+  if (n300Count >= T3K_CHIP_COUNT) {
+    return 't3k';
+  }
+
+  const precedence: HardwareType[] = ['p150', 'p100', 'n300', 'n150'];
+  return precedence.find(model => models.has(model)) ?? null;
+}
+
+/**
+ * Display label for a hardware type (e.g., "n300" → "N300", "galaxy" → "Galaxy")
+ */
+export function formatHardwareType(hardware: HardwareType): string {
+  if (hardware === 'galaxy' || hardware === 'simulator') {
+    return hardware.charAt(0).toUpperCase() + hardware.slice(1);
+  }
+  return hardware.toUpperCase();
+}
+
+/**
+ * Collect firmware versions as strings, skipping empty entries
+ */
+function collectFirmwares(firmwares: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(firmwares)) {
+    const text = toText(value);
+    if (text) {
+      result[key] = text;
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode an SMBus temperature register (hex string) to °C
+ */
+function decodeSmbusTemperature(value: unknown, mask: number): number | null {
+  if (typeof value !== 'string' || !value.startsWith('0x')) {
+    return null;
+  }
+  const raw = parseInt(value, 16);
+  return Number.isNaN(raw) ? null : raw & mask;
+}
+
+/**
+ * Convert tt-smi values (often padded strings like " 13.0") to numbers
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Convert a value to trimmed text, or null if empty
+ */
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+/**
+ * Convert tt-smi boolean-ish values (true, "true", "True") to booleans
+ */
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (lower === 'true') {
+      return true;
+    }
+    if (lower === 'false') {
+      return false;
+    }
+  }
+  return null;
+}
+
+/**
+ * Overall health of an inventory: warning if any chip reports failed DRAM
+ * training or is at/above its thermal limit, unknown if no chips were found.
+ */
+export function assessInventoryHealth(
+  inventory: DeviceInventory
+): 'healthy' | 'warning' | 'unknown' {
+  if (inventory.chips.length === 0) {
+    return 'unknown';
+  }
+
+  const degraded = inventory.chips.some(chip => {
+    const overTemp =
+      chip.temperatures.asic !== null &&
+      chip.limits.thermalLimit !== null &&
+      chip.temperatures.asic >= chip.limits.thermalLimit;
+    return chip.dramStatus === false || overTemp;
+  });
+
+  return degraded ? 'warning' : 'healthy';
+}
@@ -5,3 +5,27 @@
  */
 
 export * from './LessonRegistry';
+export * from './TtSmiParser';
+export * from './HardwareCompatibility';
+export * from './LessonSorter';
+export * from './LessonSearch';
+export * from './Prerequisites';
+export * from './RegistryValidator';
+export * from './LessonGraph';
+export * from './RegistryGenerator';
+export * from './ContentWatcher';
+export * from './LessonPacks';
+export * from './RunnableBlocks';
+export * from './OutputTail';
+export * from './CommandClassifier';
+export * from './CommandExecutor';
+export * from './LessonSteps';
+export * from './LessonNotes';
+export * from './ProgressDashboard';
+export * from './ProgressSync';
+export * from './ProgressEvents';
+export * from './SessionTimer';
+export * from './CommandTemplateEngine';
+export * from './ToolchainPaths';
+export * from './EnvironmentProfiles';
+export * from './TerminalSessions';
@@ -0,0 +1,236 @@
+/**
+ * Device Monitor Panel
+ *
+ * Webview that plots per-chip telemetry (temperature, power, AICLK, voltage)
+ * from the rolling TelemetryHistory, with threshold lines from firmware limits.
+ * Handles:
+ * - Panel creation and disposal
+ * - Pushing new samples to the webview
+ * - CSV export of the history
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { TelemetryHistory } from '../state';
+
+/**
+ * Message types for webview communication
+ */
+interface DeviceMonitorMessage {
+  type: 'ready' | 'refresh' | 'exportCsv' | 'clearHistory';
+}
+
+/**
+ * Manages the Device Monitor webview
+ */
+export class DeviceMonitorPanel {
+  private panel: vscode.WebviewPanel | undefined;
+  /** Listeners of the open panel, released when it closes */
+  private panelDisposables: vscode.Disposable[] = [];
+  private _onDidChangeVisibility = new vscode.EventEmitter<boolean>();
+  public readonly onDidChangeVisibility = this._onDidChangeVisibility.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly history: TelemetryHistory,
+    private readonly refreshDevice: () => Promise<void>
+  ) {}
+
+  /**
+   * Whether the panel is currently open
+   */
+  isOpen(): boolean {
+    return this.panel !== undefined;
+  }
+
+  /**
+   * Show (or reveal) the monitor panel
+   */
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Active);
+      return;
+    }
+
+    const webviewRoot = path.join(this.context.extensionPath, 'dist', 'src', 'webview');
+
+    this.panel = vscode.window.createWebviewPanel(
+      'tenstorrentDeviceMonitor',
+      'Tenstorrent Device Monitor',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.file(webviewRoot)],
+      }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.disposePanelListeners();
+      this._onDidChangeVisibility.fire(false);
+    }, null, this.panelDisposables);
+
+    this.panel.webview.onDidReceiveMessage(
+      (message: DeviceMonitorMessage) => this.handleMessage(message),
+      null,
+      this.panelDisposables
+    );
+
+    const cssUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'styles', 'device-monitor.css'))
+    );
+    const jsUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'scripts', 'device-monitor.js'))
+    );
+
+    this.panel.webview.html = this.generateHTML(cssUri, jsUri);
+    this._onDidChangeVisibility.fire(true);
+  }
+
+  /**
+   * Push the current history to the webview
+   */
+  update(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    const chips = this.history.getChipIndices().map(chipIndex => {
+      const samples = this.history.getSamples(chipIndex);
+      return {
+        chipIndex,
+        boardType: samples[samples.length - 1]?.boardType ?? '',
+        thresholds: this.history.getThresholds(chipIndex),
+        samples,
+      };
+    });
+
+    this.panel.webview.postMessage({ type: 'telemetry', chips });
+  }
+
+  /**
+   * Handle messages from webview
+   */
+  private async handleMessage(message: DeviceMonitorMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.update();
+        break;
+
+      case 'refresh':
+        await this.refreshDevice();
+        break;
+
+      case 'exportCsv':
+        await this.exportCsv();
+        break;
+
+      case 'clearHistory':
+        this.history.clear();
+        this.update();
+        break;
+    }
+  }
+
+  /**
+   * Save the telemetry history as CSV
+   */
+  private async exportCsv(): Promise<void> {
+    if (this.history.size() === 0) {
+      vscode.window.showWarningMessage('No telemetry recorded yet. Refresh the device status first.');
+      return;
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `tt-telemetry-${stamp}.csv`)),
+      filters: { 'CSV files': ['csv'] },
+    });
+
+    if (!target) {
+      return;
+    }
+
+    try {
+      fs.writeFileSync(target.fsPath, this.history.toCsv(), 'utf-8');
+      vscode.window.showInformationMessage(`✓ Telemetry exported to ${target.fsPath}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to export telemetry: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Generate full HTML for webview
+   */
+  private generateHTML(cssUri: vscode.Uri, jsUri: vscode.Uri): string {
+    const nonce = this.getNonce();
+    const cspSource = this.panel!.webview.cspSource;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Tenstorrent Device Monitor</title>
+  <link rel="stylesheet" href="${cssUri}">
+</head>
+<body>
+  <div class="monitor-header">
+    <h1>Device Monitor</h1>
+    <div class="monitor-actions">
+      <button class="monitor-button" data-action="refresh">⟳ Refresh now</button>
+      <button class="monitor-button" data-action="exportCsv">⬇ Export CSV</button>
+      <button class="monitor-button secondary" data-action="clearHistory">Clear history</button>
+    </div>
+  </div>
+  <div id="chip-legend" class="chip-legend"></div>
+  <div id="charts" class="charts">
+    <p class="empty-state">Waiting for telemetry from <code>tt-smi -s</code>…</p>
+  </div>
+  <script nonce="${nonce}" src="${jsUri}"></script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Dispose panel and listeners
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+
+    this.disposePanelListeners();
+    this._onDidChangeVisibility.dispose();
+  }
+
+  /**
+   * Release the listeners registered for the panel
+   */
+  private disposePanelListeners(): void {
+    while (this.panelDisposables.length) {
+      const disposable = this.panelDisposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Generate nonce for CSP
+   */
+  private getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Lesson Graph Panel
+ *
+ * Webview showing the lesson dependency graph, grouped by category and
+ * colored by progress. Handles:
+ * - Panel creation and disposal
+ * - Opening lessons from graph nodes
+ * - Highlighting the shortest path to a target lesson
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LessonRegistry, buildLessonGraph, findShortestPath } from '../utils';
+import { ProgressTracker } from '../state';
+import { ProgressStatus } from '../types';
+
+/**
+ * Message types for webview communication
+ */
+interface LessonGraphMessage {
+  type: 'ready' | 'openLesson' | 'selectTarget';
+  lessonId?: string;
+}
+
+/**
+ * Manages the lesson graph webview
+ */
+export class LessonGraphPanel {
+  private panel: vscode.WebviewPanel | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private targetLessonId: string | undefined;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly lessonRegistry: LessonRegistry,
+    private readonly progressTracker: ProgressTracker
+  ) {
+    // Recolor nodes and recompute the path as lessons are completed
+    progressTracker.onDidChangeProgress(() => this.update(), null, this.disposables);
+  }
+
+  /**
+   * Show (or reveal) the graph, optionally highlighting the path to a lesson
+   */
+  show(targetLessonId?: string): void {
+    if (targetLessonId) {
+      this.targetLessonId = targetLessonId;
+    }
+
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Active);
+      this.update();
+      return;
+    }
+
+    const webviewRoot = path.join(this.context.extensionPath, 'dist', 'src', 'webview');
+
+    this.panel = vscode.window.createWebviewPanel(
+      'tenstorrentLessonGraph',
+      'Lesson Map',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.file(webviewRoot)],
+      }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    }, null, this.disposables);
+
+    this.panel.webview.onDidReceiveMessage(
+      (message: LessonGraphMessage) => this.handleMessage(message),
+      null,
+      this.disposables
+    );
+
+    const cssUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'styles', 'lesson-graph.css'))
+    );
+    const jsUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'scripts', 'lesson-graph.js'))
+    );
+
+    this.panel.webview.html = this.generateHTML(cssUri, jsUri);
+  }
+
+  /**
+   * Push graph, progress and path to the webview
+   */
+  update(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    const lessons = this.lessonRegistry.getAll();
+    const graph = buildLessonGraph(lessons, this.lessonRegistry.getCategories());
+    const completed = this.progressTracker.getCompletedLessons();
+
+    const statuses: Record<string, ProgressStatus> = {};
+    for (const lesson of lessons) {
+      statuses[lesson.id] = this.progressTracker.getProgress(lesson.id).status;
+    }
+
+    const pathToTarget = this.targetLessonId
+      ? findShortestPath(graph, completed, this.targetLessonId)
+      : [];
+
+    this.panel.webview.postMessage({
+      type: 'graph',
+      graph,
+      statuses,
+      target: this.targetLessonId ?? null,
+      path: pathToTarget,
+    });
+  }
+
+  /**
+   * Handle messages from webview
+   */
+  private async handleMessage(message: LessonGraphMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.update();
+        break;
+
+      case 'openLesson':
+        if (message.lessonId) {
+          await vscode.commands.executeCommand('tenstorrent.showLesson', message.lessonId);
+        }
+        break;
+
+      case 'selectTarget':
+        this.targetLessonId = message.lessonId || undefined;
+        this.update();
+        break;
+    }
+  }
+
+  /**
+   * Generate full HTML for webview
+   */
+  private generateHTML(cssUri: vscode.Uri, jsUri: vscode.Uri): string {
+    const nonce = this.getNonce();
+    const cspSource = this.panel!.webview.cspSource;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Lesson Map</title>
+  <link rel="stylesheet" href="${cssUri}">
+</head>
+<body>
+  <div class="graph-header">
+    <h1>Lesson Map</h1>
+    <label class="graph-target">
+      Get me to
+      <select id="target-select">
+        <option value="">Choose a lesson…</option>
+      </select>
+    </label>
+  </div>
+  <div class="graph-legend">
+    <span><span class="swatch status-completed"></span>Completed</span>
+    <span><span class="swatch status-in-progress"></span>In progress</span>
+    <span><span class="swatch status-not-started"></span>Not started</span>
+    <span><span class="edge-sample required"></span>Required</span>
+    <span><span class="edge-sample recommended"></span>Recommended</span>
+    <span><span class="edge-sample sequence"></span>Next in sequence</span>
+  </div>
+  <p id="path-summary" class="path-summary"></p>
+  <div id="graph" class="graph"></div>
+  <script nonce="${nonce}" src="${jsUri}"></script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Dispose panel and listeners
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Generate nonce for CSP
+   */
+  private getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+}
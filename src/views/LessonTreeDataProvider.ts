@@ -5,18 +5,32 @@
  * Features:
  * - Category groupings
  * - Progress badges
- * - Hardware filtering
+ * - Prerequisite locks
+ * - Hardware filtering (auto-applied from detected device)
  * - Search/filter support
+ * - Sort modes (persisted in filter state)
  */
 
 import * as vscode from 'vscode';
-import { LessonRegistry } from '../utils';
-import { ProgressTracker } from '../state';
+import {
+  LessonRegistry,
+  HardwareCompatibility,
+  getHardwareCompatibility,
+  describeHardwareCompatibility,
+  filterByDetectedHardware,
+  sortLessons,
+  DEFAULT_SORT_DIRECTIONS,
+  PrerequisiteStatus,
+} from '../utils';
+import { ProgressTracker, StateManager } from '../state';
 import {
   LessonMetadata,
   CategoryDefinition,
   LessonCategory,
   FilterOptions,
+  FilterConfig,
+  SortOption,
+  SortDirection,
 } from '../types';
 
 /**
@@ -62,6 +76,7 @@ export class LessonTreeItem extends vscode.TreeItem {
     this.description = ''; // Keep description empty, only in tooltip
     this.tooltip = new vscode.MarkdownString(
       `**${lesson.title}**\n\n${lesson.description}\n\n` +
+      (lesson.source ? `**Source:** 📦 ${lesson.source}\n` : '') +
       `**Category:** ${lesson.category}\n` +
       `**Hardware:** ${lesson.supportedHardware.join(', ')}\n` +
       `**Status:** ${lesson.status}\n` +
@@ -157,6 +172,50 @@ export class LessonTreeItem extends vscode.TreeItem {
     const badge = badges[status];
     this.description = badge; // Just the emoji, not the label
   }
+
+  /**
+   * Lock a lesson with unmet required prerequisites and list what to do first
+   */
+  addPrerequisiteNote(status: PrerequisiteStatus): void {
+    if (!(this.tooltip instanceof vscode.MarkdownString)) {
+      return;
+    }
+
+    if (status.missing.length > 0) {
+      this.iconPath = new vscode.ThemeIcon('lock');
+      this.contextValue = 'lesson-locked';
+      this.tooltip.appendMarkdown(
+        `\n\n🔒 **Complete first:** ${status.missing.map(p => p.lesson.title).join(', ')}`
+      );
+    }
+
+    if (status.recommended.length > 0) {
+      this.tooltip.appendMarkdown(
+        `\n\n💡 **Recommended first:** ${status.recommended.map(p => p.lesson.title).join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Mark a lesson that isn't validated (or supported) on the detected hardware
+   */
+  addHardwareNote(compatibility: HardwareCompatibility, note: string): void {
+    if (compatibility === 'validated') {
+      return;
+    }
+
+    this.description = `${this.description ?? ''} ${note}`.trim();
+
+    if (this.tooltip instanceof vscode.MarkdownString) {
+      this.tooltip.appendMarkdown(`\n\n⚠️ *${note.charAt(0).toUpperCase()}${note.slice(1)}*`);
+    }
+
+    // Grey out lessons that can't run on this hardware ("all hardware" view)
+    if (compatibility === 'unsupported') {
+      this.iconPath = new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+      this.contextValue = 'lesson-unsupported';
+    }
+  }
 }
 
 /**
@@ -168,11 +227,13 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
 
   private lessonRegistry: LessonRegistry;
   private progressTracker: ProgressTracker;
+  private stateManager: StateManager;
   private filterOptions: FilterOptions = {};
 
-  constructor(lessonRegistry: LessonRegistry, progressTracker: ProgressTracker) {
+  constructor(lessonRegistry: LessonRegistry, progressTracker: ProgressTracker, stateManager: StateManager) {
     this.lessonRegistry = lessonRegistry;
     this.progressTracker = progressTracker;
+    this.stateManager = stateManager;
 
     // Apply default filter based on configuration
     this.applyConfigurationFilter();
@@ -182,6 +243,13 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
       this.refresh();
     });
 
+    // Listen to detected hardware and "my hardware / all hardware" toggle
+    stateManager.onDidChangeState(key => {
+      if (key === 'lastHardware' || key === 'hardwareView' || key === 'all') {
+        this.refresh();
+      }
+    });
+
     // Listen to theme changes to update logo
     vscode.window.onDidChangeActiveColorTheme(() => {
       this.refresh();
@@ -349,7 +417,15 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
     }
 
     // Regular lessons
-    const lessons = this.filterLessons(this.lessonRegistry.getByCategory(categoryId));
+    const { sortBy, sortDirection } = this.getSort();
+    const lessons = sortLessons(
+      this.filterLessons(this.lessonRegistry.getByCategory(categoryId)),
+      sortBy,
+      sortDirection,
+      lessonId => this.progressTracker.getProgress(lessonId)
+    );
+
+    const completed = this.progressTracker.getCompletedLessons();
 
     for (const lesson of lessons) {
       const item = new LessonTreeItem(
@@ -364,6 +440,18 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
       const progress = this.progressTracker.getProgress(lesson.id);
       item.addProgressBadge(progress.status);
 
+      // Lock lessons whose required prerequisites aren't completed
+      item.addPrerequisiteNote(this.lessonRegistry.getPrerequisiteStatus(lesson.id, completed));
+
+      // Explain mismatches with the detected hardware
+      const hardware = this.stateManager.getLastHardware();
+      if (hardware) {
+        const note = describeHardwareCompatibility(lesson, hardware);
+        if (note) {
+          item.addHardwareNote(getHardwareCompatibility(lesson, hardware), note);
+        }
+      }
+
       items.push(item);
     }
 
@@ -374,7 +462,11 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
    * Filter lessons based on current filter options
    */
   private filterLessons(lessons: LessonMetadata[]): LessonMetadata[] {
-    let filtered = [...lessons];
+    let filtered = filterByDetectedHardware(
+      lessons,
+      this.stateManager.getLastHardware(),
+      this.stateManager.getHardwareView()
+    );
 
     // Text search
     if (this.filterOptions.query) {
@@ -423,11 +515,23 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
       });
     }
 
+    // Prerequisites met
+    if (this.filterOptions.prerequisitesMet) {
+      const completed = this.progressTracker.getCompletedLessons();
+      filtered = filtered.filter(lesson => this.lessonRegistry.arePrerequisitesMet(lesson.id, completed));
+    }
+
     // Validated only
     if (this.filterOptions.validatedOnly) {
       filtered = filtered.filter(lesson => lesson.status === 'validated');
     }
 
+    // Validated on detected hardware (no-op until a device is detected)
+    const hardware = this.stateManager.getLastHardware();
+    if (this.filterOptions.validatedOnDetectedHardware && hardware) {
+      filtered = filtered.filter(lesson => getHardwareCompatibility(lesson, hardware) === 'validated');
+    }
+
     return filtered;
   }
 
@@ -453,4 +557,38 @@ export class LessonTreeDataProvider implements vscode.TreeDataProvider<LessonTre
   getFilterOptions(): FilterOptions {
     return { ...this.filterOptions };
   }
+
+  /**
+   * Current filters and sort as a FilterConfig (for saving presets)
+   */
+  getFilterConfig(): FilterConfig {
+    const { showProgress, showCategories } = this.stateManager.getUIPreferences();
+    return {
+      filters: this.getFilterOptions(),
+      ...this.getSort(),
+      showCategories,
+      showProgress,
+    };
+  }
+
+  /**
+   * Get current sort mode (defaults to registry order)
+   */
+  getSort(): { sortBy: SortOption; sortDirection: SortDirection } {
+    const state = this.stateManager.getFilterState();
+    const sortBy = state.sortBy ?? 'order';
+    return { sortBy, sortDirection: state.sortDirection ?? DEFAULT_SORT_DIRECTIONS[sortBy] };
+  }
+
+  /**
+   * Apply and persist a sort mode
+   */
+  async applySort(sortBy: SortOption, sortDirection: SortDirection = DEFAULT_SORT_DIRECTIONS[sortBy]): Promise<void> {
+    await this.stateManager.setFilterState({
+      ...this.stateManager.getFilterState(),
+      sortBy,
+      sortDirection,
+    });
+    this.refresh();
+  }
 }
@@ -6,25 +6,40 @@
  * - Webview creation and disposal
  * - Markdown rendering
  * - Command execution
+ * - Per-step checklist state and progress bar
+ * - Lesson notes (autosaved to progress, optionally pinned to a section)
+ * - Prerequisite banners
  * - Message passing
  * - Theme changes
+ * - Re-rendering on content changes (with an in-page error banner)
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { LessonRegistry } from '../utils';
+import { LessonRegistry, isCommandRuns } from '../utils';
 import { ProgressTracker } from '../state';
 import { MarkdownRenderer } from '../renderers';
-import { LessonMetadata } from '../types';
+import { LessonMetadata, CommandExecution, CommandRuns, ExecutionStatus } from '../types';
 
 /**
  * Message types for webview communication
  */
 interface WebviewMessage {
-  type: 'executeCommand' | 'copyCode' | 'ready';
+  type: 'executeCommand' | 'copyCode' | 'runCode' | 'markStepDone' | 'saveNote' | 'exportNotes' | 'activity' | 'ready';
   command?: string;
   code?: string;
+  terminal?: string;
   lessonId?: string;
+
+  /** Step key of the button/block the message came from (see LessonSteps) */
+  stepKey?: string;
+
+  /** Note text (saveNote) */
+  text?: string;
+
+  /** Heading anchor and text the note is pinned to (saveNote; omitted for lesson notes) */
+  anchor?: string;
+  heading?: string;
 }
 
 /**
@@ -37,16 +52,23 @@ export class LessonWebviewManager {
   private progressTracker: ProgressTracker;
   private markdownRenderer: MarkdownRenderer;
   private currentLesson: LessonMetadata | undefined;
+  private pendingAnchor: string | undefined;
+  private lessonCommands: string[] = [];
+  /** Steps whose commands ran with an unknown outcome, by step key (the user may mark them done) */
+  private unconfirmedSteps = new Map<string, { lessonId: string; commandId: string }>();
+  private previewCommand: ((commandId: string) => Promise<string | undefined>) | undefined;
   private disposables: vscode.Disposable[] = [];
 
   constructor(
     context: vscode.ExtensionContext,
     lessonRegistry: LessonRegistry,
-    progressTracker: ProgressTracker
+    progressTracker: ProgressTracker,
+    previewCommand?: (commandId: string) => Promise<string | undefined>
   ) {
     this.context = context;
     this.lessonRegistry = lessonRegistry;
     this.progressTracker = progressTracker;
+    this.previewCommand = previewCommand;
     this.markdownRenderer = new MarkdownRenderer();
 
     // Listen for theme changes
@@ -59,8 +81,10 @@ export class LessonWebviewManager {
 
   /**
    * Show a lesson in the webview
+   *
+   * @param anchor - Optional heading anchor to scroll to once rendered
    */
-  async showLesson(lessonIdOrMetadata: string | LessonMetadata): Promise<void> {
+  async showLesson(lessonIdOrMetadata: string | LessonMetadata, anchor?: string): Promise<void> {
     // Get lesson metadata
     const lesson =
       typeof lessonIdOrMetadata === 'string'
@@ -73,9 +97,12 @@ export class LessonWebviewManager {
     }
 
     this.currentLesson = lesson;
+    this.pendingAnchor = anchor;
+    this.unconfirmedSteps.clear();
 
     // Start tracking session
-    this.progressTracker.startSession(lesson.id);
+    this.progressTracker.startSession(lesson.id)
+      .catch(error => console.error('Failed to save lesson progress:', error));
 
     // Create or reveal panel
     if (this.panel) {
@@ -101,6 +128,11 @@ export class LessonWebviewManager {
         this.panel = undefined;
       }, null, this.disposables);
 
+      // Time on the lesson only counts while it's visible
+      this.panel.onDidChangeViewState(event => {
+        this.progressTracker.setSessionVisible(event.webviewPanel.visible);
+      }, null, this.disposables);
+
       // Handle messages from webview
       this.panel.webview.onDidReceiveMessage(
         (message: WebviewMessage) => this.handleMessage(message),
@@ -118,19 +150,20 @@ export class LessonWebviewManager {
 
   /**
    * Render lesson content
+   *
+   * @param onError - 'notify' shows a VSCode error message; 'banner' keeps
+   *   the current page and shows the error inside it (used on hot reload)
    */
-  private async renderLesson(lesson: LessonMetadata): Promise<void> {
+  private async renderLesson(lesson: LessonMetadata, onError: 'notify' | 'banner' = 'notify'): Promise<void> {
     if (!this.panel) {
       return;
     }
 
     try {
       // Render markdown
-      const contentPath = path.join(
-        this.context.extensionPath,
-        lesson.markdownFile
-      );
+      const contentPath = this.lessonRegistry.getMarkdownPath(lesson);
       const rendered = await this.markdownRenderer.renderFile(contentPath);
+      this.lessonCommands = rendered.commands;
 
       // Get webview URIs
       const cssUri = this.panel.webview.asWebviewUri(
@@ -151,12 +184,23 @@ export class LessonWebviewManager {
       // Set webview content
       this.panel.webview.html = html;
     } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to render lesson: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      const message = `Failed to render lesson: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (onError === 'banner') {
+        this.showContentError(message);
+      } else {
+        vscode.window.showErrorMessage(message);
+      }
     }
   }
 
+  /**
+   * Show a content error banner in the open lesson (e.g. broken markdown or
+   * registry while authoring). Cleared by the next successful render.
+   */
+  showContentError(message: string): void {
+    this.panel?.webview.postMessage({ type: 'contentError', message });
+  }
+
   /**
    * Generate full HTML for webview
    */
@@ -187,6 +231,8 @@ export class LessonWebviewManager {
     </div>
   </div>
 
+  ${this.generatePrerequisiteBanner(lesson)}
+
   <div class="lesson-content">
     ${content}
   </div>
@@ -220,6 +266,42 @@ export class LessonWebviewManager {
       .join('');
   }
 
+  /**
+   * Generate banner for unmet required and recommended prerequisites
+   */
+  private generatePrerequisiteBanner(lesson: LessonMetadata): string {
+    const { missing, recommended } = this.lessonRegistry.getPrerequisiteStatus(
+      lesson.id,
+      this.progressTracker.getCompletedLessons()
+    );
+
+    const button = (prereq: LessonMetadata, description?: string) =>
+      `<li>
+        <button class="tt-command-button" data-command="tenstorrent.showLesson" data-lesson="${this.escapeHtml(prereq.id)}">${this.escapeHtml(prereq.title)}</button>
+        ${description ? `<span class="prerequisite-reason">${this.escapeHtml(description)}</span>` : ''}
+      </li>`;
+
+    let html = '';
+
+    if (missing.length > 0) {
+      html += `
+      <div class="prerequisite-banner warning">
+        <strong>🔒 Complete these lessons first</strong>
+        <ul>${missing.map(p => button(p.lesson, p.info.description)).join('')}</ul>
+      </div>`;
+    }
+
+    if (recommended.length > 0) {
+      html += `
+      <div class="prerequisite-banner info">
+        <strong>💡 Recommended first</strong>
+        <ul>${recommended.map(p => button(p.lesson, p.info.description)).join('')}</ul>
+      </div>`;
+    }
+
+    return html;
+  }
+
   /**
    * Generate lesson navigation HTML
    */
@@ -247,24 +329,21 @@ export class LessonWebviewManager {
    * Handle messages from webview
    */
   private async handleMessage(message: WebviewMessage): Promise<void> {
+    // Any interaction with the lesson means the user isn't idle
+    this.progressTracker.recordActivity();
+
     switch (message.type) {
       case 'executeCommand':
         if (message.command) {
-          // Execute the command with optional lesson ID argument
-          if (message.lessonId) {
-            await vscode.commands.executeCommand(message.command, message.lessonId);
-          } else {
-            await vscode.commands.executeCommand(message.command);
-          }
+          const command = message.command;
 
-          // Record progress if we have a current lesson
-          if (this.currentLesson) {
-            await this.progressTracker.recordCommandExecution(
-              this.currentLesson.id,
-              message.command,
-              this.currentLesson
-            );
-          }
+          // Execute the command with optional lesson ID argument; commands
+          // that run terminal commands return their runs
+          const result = message.lessonId
+            ? await vscode.commands.executeCommand(command, message.lessonId)
+            : await vscode.commands.executeCommand(command);
+
+          await this.trackStep(message.stepKey, command, isCommandRuns(result) ? result.runs : []);
         }
         break;
 
@@ -275,18 +354,191 @@ export class LessonWebviewManager {
         }
         break;
 
+      case 'runCode':
+        if (message.code) {
+          // Runs in the block's terminal (after confirmation for risky commands)
+          const result = await vscode.commands.executeCommand<CommandRuns | undefined>(
+            'tenstorrent.runCodeBlock',
+            message.code,
+            message.terminal
+          );
+
+          // A successful run counts as executing the run command
+          if (isCommandRuns(result)) {
+            await this.trackStep(message.stepKey, 'tenstorrent.runCodeBlock', result.runs);
+          }
+        }
+        break;
+
+      case 'markStepDone':
+        // The user confirmed a step whose outcome couldn't be observed
+        if (message.stepKey) {
+          await this.confirmStep(message.stepKey);
+        }
+        break;
+
+      case 'saveNote':
+        // Autosave from the notes panel (lessonId is the lesson the note was written in)
+        if (message.lessonId && message.text !== undefined) {
+          const section = message.anchor ? { anchor: message.anchor, heading: message.heading ?? message.anchor } : undefined;
+          await this.progressTracker.saveNote(message.lessonId, message.text, section);
+          this.panel?.webview.postMessage({ type: 'noteSaved', anchor: message.anchor });
+        }
+        break;
+
+      case 'exportNotes':
+        await vscode.commands.executeCommand('tenstorrent.exportNotes');
+        break;
+
+      case 'activity':
+        // Scrolling/clicking/typing in the lesson (recorded above)
+        break;
+
       case 'ready':
-        // Webview is ready
+        // Webview is ready - show which steps are done and the lesson's
+        // notes, then jump to the requested section, if any
+        if (this.panel && this.currentLesson) {
+          const progress = this.progressTracker.getProgress(this.currentLesson.id);
+          this.panel.webview.postMessage({
+            type: 'stepStates',
+            states: this.progressTracker.getStepStates(this.currentLesson.id),
+          });
+          this.panel.webview.postMessage({
+            type: 'notes',
+            notes: progress.notes ?? '',
+            sectionNotes: progress.sectionNotes ?? {},
+          });
+        }
+        if (this.pendingAnchor && this.panel) {
+          this.panel.webview.postMessage({ type: 'highlight', sectionId: this.pendingAnchor });
+          this.pendingAnchor = undefined;
+        }
+        await this.postCommandPreviews();
         break;
     }
   }
 
   /**
-   * Refresh current lesson
+   * Send the exact terminal commands behind the lesson's command buttons
+   * (shown when hovering a button)
+   */
+  private async postCommandPreviews(): Promise<void> {
+    if (!this.panel || !this.previewCommand) {
+      return;
+    }
+
+    const previews: Record<string, string> = {};
+    for (const commandId of new Set(this.lessonCommands)) {
+      const preview = await this.previewCommand(commandId);
+      if (preview) {
+        previews[commandId] = preview;
+      }
+    }
+    this.panel?.webview.postMessage({ type: 'commandPreviews', previews });
+  }
+
+  /**
+   * Report a step's outcome to the webview and record progress.
+   *
+   * Steps that ran terminal commands only count toward completion once
+   * all of them passed. Steps with runs whose outcome can't be observed
+   * (terminals without shell integration, commands that never exit) stay
+   * pending until the user marks them done. Steps that ran nothing in a
+   * terminal (opening a file, showing a panel) count right away.
+   */
+  private async trackStep(stepKey: string | undefined, commandId: string, runs: Promise<CommandExecution>[]): Promise<void> {
+    const lesson = this.currentLesson;
+    if (!lesson) {
+      return;
+    }
+
+    if (runs.length > 0) {
+      this.postStepStatus(lesson, stepKey, { status: 'running' });
+
+      const executions = await Promise.all(runs);
+      const failed = executions.find(execution => execution.status === 'failed');
+      const passed = executions.every(execution => execution.status === 'passed');
+      const reported = failed ?? executions[executions.length - 1];
+
+      this.postStepStatus(lesson, stepKey, {
+        status: failed ? 'failed' : passed ? 'passed' : 'unknown',
+        exitCode: reported.exitCode,
+        durationMs: executions.reduce((total, execution) => total + (execution.durationMs ?? 0), 0) || undefined,
+        output: failed ? failed.outputTail : [],
+      });
+
+      if (failed) {
+        await this.recordStepResult(lesson, stepKey, false);
+        return;
+      }
+      if (!passed) {
+        if (stepKey) {
+          this.unconfirmedSteps.set(stepKey, { lessonId: lesson.id, commandId });
+        }
+        return;
+      }
+    }
+
+    if (stepKey) {
+      this.unconfirmedSteps.delete(stepKey);
+    }
+    await this.recordStepResult(lesson, stepKey, true);
+    await this.progressTracker.recordCommandExecution(lesson.id, commandId, lesson);
+  }
+
+  /**
+   * Record a step whose outcome was unknown as done, at the user's request
+   */
+  private async confirmStep(stepKey: string): Promise<void> {
+    const step = this.unconfirmedSteps.get(stepKey);
+    const lesson = this.currentLesson;
+    if (!step || !lesson || lesson.id !== step.lessonId) {
+      return;
+    }
+
+    this.unconfirmedSteps.delete(stepKey);
+    await this.recordStepResult(lesson, stepKey, true);
+    await this.progressTracker.recordCommandExecution(lesson.id, step.commandId, lesson);
+  }
+
+  /**
+   * Save a step's result and update its checklist state in the webview
+   */
+  private async recordStepResult(lesson: LessonMetadata, stepKey: string | undefined, passed: boolean): Promise<void> {
+    if (!stepKey) {
+      return;
+    }
+
+    await this.progressTracker.recordStepResult(lesson.id, stepKey, passed);
+    if (this.panel && this.currentLesson?.id === lesson.id) {
+      this.panel.webview.postMessage({ type: 'stepStates', states: { [stepKey]: passed ? 'done' : 'failed' } });
+    }
+  }
+
+  /**
+   * Send a step status update, if the lesson is still on screen
+   */
+  private postStepStatus(
+    lesson: LessonMetadata,
+    stepKey: string | undefined,
+    result: { status: ExecutionStatus; exitCode?: number; durationMs?: number; output?: string[] }
+  ): void {
+    if (stepKey && this.panel && this.currentLesson?.id === lesson.id) {
+      this.panel.webview.postMessage({ type: 'stepStatus', stepKey, ...result });
+    }
+  }
+
+  /**
+   * Refresh current lesson, picking up reloaded metadata and markdown.
+   * Scroll position is restored by the webview (same lesson ID).
    */
   async refresh(): Promise<void> {
     if (this.currentLesson) {
-      await this.renderLesson(this.currentLesson);
+      this.currentLesson = this.lessonRegistry.get(this.currentLesson.id) ?? this.currentLesson;
+      if (this.panel) {
+        this.panel.title = this.currentLesson.title;
+      }
+      await this.renderLesson(this.currentLesson, 'banner');
     }
   }
 
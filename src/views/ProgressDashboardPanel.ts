@@ -0,0 +1,212 @@
+/**
+ * Progress Dashboard Panel
+ *
+ * Webview summarizing lesson progress. Handles:
+ * - Panel creation and disposal
+ * - Overall statistics (from ProgressTracker.getStatistics)
+ * - Per-category completion, time per lesson and the activity calendar
+ * - Continuing in-progress lessons
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LessonRegistry, buildProgressDashboard } from '../utils';
+import { ProgressTracker } from '../state';
+
+/**
+ * Message types for webview communication
+ */
+interface ProgressDashboardMessage {
+  type: 'ready' | 'openLesson' | 'showLessonGraph';
+  lessonId?: string;
+}
+
+/**
+ * Manages the progress dashboard webview
+ */
+export class ProgressDashboardPanel {
+  private panel: vscode.WebviewPanel | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly lessonRegistry: LessonRegistry,
+    private readonly progressTracker: ProgressTracker
+  ) {
+    // Keep numbers current while the dashboard is open
+    progressTracker.onDidChangeProgress(() => this.update(), null, this.disposables);
+  }
+
+  /**
+   * Show (or reveal) the dashboard
+   */
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Active);
+      this.update();
+      return;
+    }
+
+    const webviewRoot = path.join(this.context.extensionPath, 'dist', 'src', 'webview');
+
+    this.panel = vscode.window.createWebviewPanel(
+      'tenstorrentProgressDashboard',
+      'Lesson Progress',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.file(webviewRoot)],
+      }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    }, null, this.disposables);
+
+    // Time spent is saved when a lesson session ends, so refresh on focus
+    this.panel.onDidChangeViewState(event => {
+      if (event.webviewPanel.visible) {
+        this.update();
+      }
+    }, null, this.disposables);
+
+    this.panel.webview.onDidReceiveMessage(
+      (message: ProgressDashboardMessage) => this.handleMessage(message),
+      null,
+      this.disposables
+    );
+
+    const cssUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'styles', 'progress-dashboard.css'))
+    );
+    const jsUri = this.panel.webview.asWebviewUri(
+      vscode.Uri.file(path.join(webviewRoot, 'scripts', 'progress-dashboard.js'))
+    );
+
+    this.panel.webview.html = this.generateHTML(cssUri, jsUri);
+  }
+
+  /**
+   * Push statistics and dashboard data to the webview
+   */
+  update(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    const lessons = this.lessonRegistry.getAll();
+    const statistics = this.progressTracker.getStatistics(lessons.length);
+    const dashboard = buildProgressDashboard(
+      this.lessonRegistry.getCategories(),
+      lessons,
+      this.progressTracker.exportProgress().lessons,
+      new Date(),
+      this.progressTracker.getHistory()
+    );
+
+    const titleOf = (lessonId: string | undefined) =>
+      lessonId ? this.lessonRegistry.get(lessonId)?.title ?? lessonId : null;
+
+    this.panel.webview.postMessage({
+      type: 'dashboard',
+      statistics,
+      dashboard,
+      mostRecentTitle: titleOf(statistics.mostRecentLesson),
+      longestTitle: titleOf(statistics.longestLesson),
+    });
+  }
+
+  /**
+   * Handle messages from webview
+   */
+  private async handleMessage(message: ProgressDashboardMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.update();
+        break;
+
+      case 'openLesson':
+        if (message.lessonId) {
+          await vscode.commands.executeCommand('tenstorrent.showLesson', message.lessonId);
+        }
+        break;
+
+      case 'showLessonGraph':
+        await vscode.commands.executeCommand('tenstorrent.showLessonGraph');
+        break;
+    }
+  }
+
+  /**
+   * Generate full HTML for webview
+   */
+  private generateHTML(cssUri: vscode.Uri, jsUri: vscode.Uri): string {
+    const nonce = this.getNonce();
+    const cspSource = this.panel!.webview.cspSource;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Lesson Progress</title>
+  <link rel="stylesheet" href="${cssUri}">
+</head>
+<body>
+  <div class="dashboard-header">
+    <h1>Lesson Progress</h1>
+    <button id="show-graph" class="link-button">Open Lesson Map</button>
+  </div>
+  <div id="summary" class="summary"></div>
+  <section>
+    <h2>Continue</h2>
+    <div id="continue" class="continue-list"></div>
+  </section>
+  <section>
+    <h2>By Category</h2>
+    <div id="categories" class="category-list"></div>
+  </section>
+  <section>
+    <h2>Activity</h2>
+    <p id="streak" class="streak"></p>
+    <div id="calendar" class="calendar"></div>
+  </section>
+  <section>
+    <h2>Time Spent</h2>
+    <div id="lesson-times" class="lesson-times"></div>
+  </section>
+  <script nonce="${nonce}" src="${jsUri}"></script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Dispose panel and listeners
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Generate nonce for CSP
+   */
+  private getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Terminal Tree Data Provider
+ *
+ * Lists the Tenstorrent context terminals in the "Tenstorrent Terminals"
+ * view with the command running in each, since when, and how the last
+ * command ended. Item actions (restart, kill, clear, reveal) are
+ * contributed in package.json and receive the TerminalTreeItem.
+ */
+
+import * as vscode from 'vscode';
+import {
+  TerminalSessions,
+  TerminalSession,
+  describeSession,
+  describeExit,
+  formatClockTime,
+} from '../utils';
+
+/**
+ * Tree item for one context terminal. contextValue is
+ * `terminal-<state>` so menus can depend on the state.
+ */
+export class TerminalTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly context: string,
+    name: string,
+    session: TerminalSession
+  ) {
+    super(name, vscode.TreeItemCollapsibleState.None);
+
+    this.id = context;
+    this.description = describeSession(session);
+    this.contextValue = `terminal-${session.state}`;
+    this.iconPath = TerminalTreeItem.icon(session);
+    this.tooltip = TerminalTreeItem.tooltip(name, session);
+    this.command = {
+      command: 'tenstorrent.revealTerminal',
+      title: 'Show Terminal',
+      arguments: [this],
+    };
+  }
+
+  private static icon(session: TerminalSession): vscode.ThemeIcon {
+    if (session.state === 'running') {
+      return new vscode.ThemeIcon('loading~spin');
+    }
+    if (session.state === 'unknown') {
+      return new vscode.ThemeIcon('question');
+    }
+    if (session.state === 'idle' && session.lastExit?.exitCode !== undefined && session.lastExit.exitCode !== 0) {
+      return new vscode.ThemeIcon('terminal', new vscode.ThemeColor('testing.iconFailed'));
+    }
+    return new vscode.ThemeIcon(session.state === 'closed' ? 'circle-outline' : 'terminal');
+  }
+
+  private static tooltip(name: string, session: TerminalSession): vscode.MarkdownString {
+    const lines = [`**${name}**`, ''];
+    lines.push(`**Profile:** ${session.profile ?? 'none'}`);
+    if (session.state === 'running' && session.command !== undefined) {
+      lines.push(`**Running since ${formatClockTime(session.startedAt ?? 0)}:**`, '', '```sh', session.command, '```');
+    }
+    if (session.state === 'unknown' && session.command !== undefined) {
+      lines.push(
+        `**Sent at ${formatClockTime(session.startedAt ?? 0)}** (without shell integration, so whether it is still running is unknown):`,
+        '',
+        '```sh',
+        session.command,
+        '```'
+      );
+    }
+    if (session.lastExit) {
+      lines.push(
+        `**Last command** (${describeExit(session.lastExit)} at ${formatClockTime(session.lastExit.endedAt)}):`,
+        '',
+        '```sh',
+        session.lastExit.command,
+        '```'
+      );
+    }
+    return new vscode.MarkdownString(lines.join('\n'));
+  }
+}
+
+/**
+ * Provides one item per context terminal
+ */
+export class TerminalTreeDataProvider<Key extends string> implements vscode.TreeDataProvider<TerminalTreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TerminalTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  /**
+   * @param sessions - Sessions of the terminals (call refresh when they change)
+   * @param names - Display name of each terminal, in view order
+   */
+  constructor(
+    private readonly sessions: TerminalSessions<Key>,
+    private readonly names: Record<Key, string>
+  ) {}
+
+  /**
+   * Refresh tree view
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: TerminalTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TerminalTreeItem): TerminalTreeItem[] {
+    if (element) {
+      return [];
+    }
+    return (Object.keys(this.names) as Key[]).map(
+      context => new TerminalTreeItem(context, this.names[context], this.sessions.get(context))
+    );
+  }
+}
@@ -6,3 +6,7 @@
 
 export * from './LessonTreeDataProvider';
 export * from './LessonWebviewManager';
+export * from './DeviceMonitorPanel';
+export * from './LessonGraphPanel';
+export * from './ProgressDashboardPanel';
+export * from './TerminalTreeDataProvider';
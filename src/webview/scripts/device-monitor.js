@@ -0,0 +1,207 @@
+/**
+ * Device Monitor Script
+ *
+ * Runs in the webview context to handle:
+ * - Rendering per-chip telemetry charts (SVG)
+ * - Threshold lines from firmware limits
+ * - Toolbar actions (refresh, export, clear)
+ */
+
+(function() {
+  // Get VS Code API
+  const vscode = acquireVsCodeApi();
+
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const WIDTH = 640;
+  const HEIGHT = 180;
+  const PADDING = { top: 12, right: 12, bottom: 24, left: 48 };
+
+  /**
+   * Chart definitions, one per metric
+   */
+  const METRICS = [
+    { key: 'temperature', title: 'ASIC Temperature', unit: '°C', digits: 1 },
+    { key: 'power', title: 'Power', unit: 'W', digits: 1 },
+    { key: 'aiclk', title: 'AICLK', unit: 'MHz', digits: 0 },
+    { key: 'voltage', title: 'Core Voltage', unit: 'V', digits: 3 },
+  ];
+
+  /**
+   * Line colors, cycled per chip
+   */
+  const CHIP_COLORS = ['#14B8A6', '#4A90E2', '#F5A623', '#BD10E0', '#7ED321', '#E94E77', '#50E3C2', '#B8E986'];
+
+  /**
+   * Initialize monitor
+   */
+  function initialize() {
+    document.querySelectorAll('[data-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        vscode.postMessage({ type: button.getAttribute('data-action') });
+      });
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  }
+
+  /**
+   * Render all charts from the chip histories
+   */
+  function render(chips) {
+    const container = document.getElementById('charts');
+    const legend = document.getElementById('chip-legend');
+    container.innerHTML = '';
+    legend.innerHTML = '';
+
+    if (!chips.length || chips.every(chip => chip.samples.length === 0)) {
+      const empty = document.createElement('p');
+      empty.className = 'empty-state';
+      empty.textContent = 'No telemetry yet. Waiting for the next tt-smi poll…';
+      container.appendChild(empty);
+      return;
+    }
+
+    chips.forEach((chip, i) => {
+      const item = document.createElement('span');
+      item.className = 'legend-item';
+      item.innerHTML = `<span class="legend-swatch" style="background:${color(i)}"></span>`;
+      item.appendChild(document.createTextNode(`Chip ${chip.chipIndex} (${chip.boardType})`));
+      legend.appendChild(item);
+    });
+
+    METRICS.forEach(metric => container.appendChild(renderChart(metric, chips)));
+  }
+
+  /**
+   * Render one metric chart with a line per chip
+   */
+  function renderChart(metric, chips) {
+    const section = document.createElement('section');
+    section.className = 'chart';
+
+    const series = chips.map((chip, i) => ({
+      color: color(i),
+      points: chip.samples
+        .filter(sample => sample[metric.key] !== null)
+        .map(sample => ({ t: sample.timestamp, v: sample[metric.key] })),
+    }));
+
+    const limits = chips
+      .map(chip => chip.thresholds[metric.key])
+      .filter(limit => typeof limit === 'number');
+    const limit = limits.length ? Math.min(...limits) : null;
+
+    const allPoints = series.flatMap(s => s.points);
+    const latest = series.map(s => s.points[s.points.length - 1]).filter(Boolean);
+    const latestText = latest.length
+      ? latest.map(p => p.v.toFixed(metric.digits)).join(' / ') + ' ' + metric.unit
+      : 'n/a';
+
+    const heading = document.createElement('h2');
+    heading.textContent = metric.title;
+    const value = document.createElement('span');
+    value.className = 'chart-latest';
+    value.textContent = latestText;
+    heading.appendChild(value);
+    section.appendChild(heading);
+
+    if (!allPoints.length) {
+      const empty = document.createElement('p');
+      empty.className = 'empty-state';
+      empty.textContent = 'Not reported by this device.';
+      section.appendChild(empty);
+      return section;
+    }
+
+    const tMin = Math.min(...allPoints.map(p => p.t));
+    const tMax = Math.max(...allPoints.map(p => p.t));
+    const values = allPoints.map(p => p.v).concat(limit !== null ? [limit] : []);
+    let vMin = Math.min(...values);
+    let vMax = Math.max(...values);
+    if (vMin === vMax) {
+      vMin -= 1;
+      vMax += 1;
+    }
+    const margin = (vMax - vMin) * 0.1;
+    vMin -= margin;
+    vMax += margin;
+
+    const x = t => PADDING.left + (tMax === tMin ? 0.5 : (t - tMin) / (tMax - tMin)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = v => PADDING.top + (1 - (v - vMin) / (vMax - vMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+    const svg = svgElement('svg', { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, class: 'chart-svg' });
+
+    // Axes labels
+    svg.appendChild(svgText(PADDING.left - 6, y(vMax - margin) + 4, (vMax - margin).toFixed(metric.digits), 'end'));
+    svg.appendChild(svgText(PADDING.left - 6, y(vMin + margin) + 4, (vMin + margin).toFixed(metric.digits), 'end'));
+    svg.appendChild(svgText(PADDING.left, HEIGHT - 6, formatTime(tMin), 'start'));
+    svg.appendChild(svgText(WIDTH - PADDING.right, HEIGHT - 6, formatTime(tMax), 'end'));
+    svg.appendChild(svgElement('line', {
+      x1: PADDING.left, y1: HEIGHT - PADDING.bottom, x2: WIDTH - PADDING.right, y2: HEIGHT - PADDING.bottom,
+      class: 'axis',
+    }));
+
+    // Threshold line
+    if (limit !== null) {
+      svg.appendChild(svgElement('line', {
+        x1: PADDING.left, y1: y(limit), x2: WIDTH - PADDING.right, y2: y(limit),
+        class: 'threshold',
+      }));
+      svg.appendChild(svgText(WIDTH - PADDING.right - 4, y(limit) - 4, `limit ${limit} ${metric.unit}`, 'end', 'threshold-label'));
+    }
+
+    // One line per chip
+    series.forEach(s => {
+      if (!s.points.length) {
+        return;
+      }
+      const d = s.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(' ');
+      svg.appendChild(svgElement('path', { d, stroke: s.color, class: 'series' }));
+      const last = s.points[s.points.length - 1];
+      svg.appendChild(svgElement('circle', { cx: x(last.t), cy: y(last.v), r: 3, fill: s.color }));
+    });
+
+    section.appendChild(svg);
+    return section;
+  }
+
+  function color(i) {
+    return CHIP_COLORS[i % CHIP_COLORS.length];
+  }
+
+  function formatTime(timestamp) {
+    return new Date(timestamp).toLocaleTimeString();
+  }
+
+  function svgElement(name, attrs) {
+    const el = document.createElementNS(SVG_NS, name);
+    Object.keys(attrs).forEach(key => el.setAttribute(key, attrs[key]));
+    return el;
+  }
+
+  function svgText(xPos, yPos, text, anchor, className) {
+    const el = svgElement('text', { x: xPos, y: yPos, 'text-anchor': anchor, class: className || 'axis-label' });
+    el.textContent = text;
+    return el;
+  }
+
+  /**
+   * Handle messages from extension
+   */
+  window.addEventListener('message', event => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'telemetry':
+        render(message.chips);
+        break;
+    }
+  });
+
+  // Initialize when DOM is ready
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initialize);
+  } else {
+    initialize();
+  }
+})();
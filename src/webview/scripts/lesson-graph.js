@@ -0,0 +1,233 @@
+/**
+ * Lesson Graph Script
+ *
+ * Runs in the webview context to handle:
+ * - Rendering the lesson dependency graph (SVG)
+ * - Opening lessons when nodes are clicked
+ * - Choosing a target lesson and highlighting the path to it
+ */
+
+(function() {
+  // Get VS Code API
+  const vscode = acquireVsCodeApi();
+
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const NODE_WIDTH = 200;
+  const NODE_HEIGHT = 44;
+  const COLUMN_GAP = 80;
+  const ROW_GAP = 26;
+  const HEADER_HEIGHT = 36;
+  const PADDING = 16;
+
+  /**
+   * Initialize graph view
+   */
+  function initialize() {
+    document.getElementById('target-select').addEventListener('change', event => {
+      vscode.postMessage({ type: 'selectTarget', lessonId: event.target.value });
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  }
+
+  /**
+   * Top-left corner of a node
+   */
+  function nodePosition(node) {
+    return {
+      x: PADDING + node.column * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + HEADER_HEIGHT + node.row * (NODE_HEIGHT + ROW_GAP),
+    };
+  }
+
+  /**
+   * Curved edge between two nodes (loops out to the right within a column)
+   */
+  function edgePath(from, to) {
+    const a = nodePosition(from);
+    const b = nodePosition(to);
+
+    if (from.column === to.column) {
+      const x = a.x + NODE_WIDTH;
+      const y1 = a.y + NODE_HEIGHT / 2;
+      const y2 = b.y + NODE_HEIGHT / 2;
+      const bulge = 24 + Math.min(Math.abs(to.row - from.row), 4) * 8;
+      return `M${x},${y1} C${x + bulge},${y1} ${x + bulge},${y2} ${x},${y2}`;
+    }
+
+    const forward = to.column > from.column;
+    const x1 = forward ? a.x + NODE_WIDTH : a.x;
+    const x2 = forward ? b.x : b.x + NODE_WIDTH;
+    const y1 = a.y + NODE_HEIGHT / 2;
+    const y2 = b.y + NODE_HEIGHT / 2;
+    const dx = (x2 - x1) / 2;
+    return `M${x1},${y1} C${x1 + dx},${y1} ${x2 - dx},${y2} ${x2},${y2}`;
+  }
+
+  /**
+   * Render graph, coloring by progress and highlighting the path
+   */
+  function render(message) {
+    const { graph, statuses, target, path } = message;
+    const container = document.getElementById('graph');
+    container.innerHTML = '';
+
+    const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+    const onPath = new Set(path);
+    const pathEdges = new Set(path.slice(1).map((id, i) => `${path[i]}→${id}`));
+
+    updateTargetSelect(graph.nodes, target);
+    updatePathSummary(path, target, nodesById, statuses);
+
+    const rows = Math.max(1, ...graph.nodes.map(node => node.row + 1));
+    const width = PADDING * 2 + graph.columns.length * NODE_WIDTH + (graph.columns.length - 1) * COLUMN_GAP + 60;
+    const height = PADDING * 2 + HEADER_HEIGHT + rows * (NODE_HEIGHT + ROW_GAP);
+
+    const svg = svgElement('svg', { width, height, viewBox: `0 0 ${width} ${height}` });
+
+    // Arrow markers
+    const defs = svgElement('defs', {});
+    ['required', 'recommended', 'sequence', 'on-path'].forEach(kind => {
+      const marker = svgElement('marker', {
+        id: `arrow-${kind}`, viewBox: '0 0 10 10', refX: 9, refY: 5,
+        markerWidth: 6, markerHeight: 6, orient: 'auto-start-reverse',
+      });
+      marker.appendChild(svgElement('path', { d: 'M0,0 L10,5 L0,10 z', class: `arrow ${kind}` }));
+      defs.appendChild(marker);
+    });
+    svg.appendChild(defs);
+
+    // Column headers
+    graph.columns.forEach((column, i) => {
+      const text = svgElement('text', {
+        x: PADDING + i * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + 14,
+        class: 'column-title',
+      });
+      text.textContent = column.title;
+      svg.appendChild(text);
+    });
+
+    // Edges first so nodes draw on top
+    graph.edges.forEach(edge => {
+      const from = nodesById.get(edge.from);
+      const to = nodesById.get(edge.to);
+      if (!from || !to) {
+        return;
+      }
+      const highlighted = pathEdges.has(`${edge.from}→${edge.to}`);
+      const kind = highlighted ? 'on-path' : edge.kind;
+      svg.appendChild(svgElement('path', {
+        d: edgePath(from, to),
+        class: `edge ${edge.kind}${highlighted ? ' on-path' : ''}`,
+        'marker-end': `url(#arrow-${kind})`,
+      }));
+    });
+
+    // Nodes
+    graph.nodes.forEach(node => {
+      const { x, y } = nodePosition(node);
+      const status = statuses[node.id] || 'not-started';
+      const classes = ['node', `status-${status}`];
+      if (onPath.has(node.id)) classes.push('on-path');
+      if (node.id === target) classes.push('target');
+
+      const group = svgElement('g', { class: classes.join(' '), tabindex: 0, role: 'button' });
+      group.appendChild(svgElement('rect', { x, y, width: NODE_WIDTH, height: NODE_HEIGHT, rx: 6 }));
+
+      const label = svgElement('text', { x: x + 10, y: y + NODE_HEIGHT / 2 + 4 });
+      label.textContent = truncate(node.title, 28);
+      group.appendChild(label);
+
+      const title = svgElement('title', {});
+      title.textContent = `${node.title} (${status.replace('-', ' ')})`;
+      group.appendChild(title);
+
+      const open = () => vscode.postMessage({ type: 'openLesson', lessonId: node.id });
+      group.addEventListener('click', open);
+      group.addEventListener('keydown', event => {
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
+          open();
+        }
+      });
+
+      svg.appendChild(group);
+    });
+
+    container.appendChild(svg);
+  }
+
+  /**
+   * Keep the target dropdown in sync with the graph
+   */
+  function updateTargetSelect(nodes, target) {
+    const select = document.getElementById('target-select');
+    const placeholder = select.options[0];
+    select.innerHTML = '';
+    select.appendChild(placeholder);
+
+    [...nodes].sort((a, b) => a.title.localeCompare(b.title)).forEach(node => {
+      const option = document.createElement('option');
+      option.value = node.id;
+      option.textContent = node.title;
+      option.selected = node.id === target;
+      select.appendChild(option);
+    });
+  }
+
+  /**
+   * Describe the highlighted path in words
+   */
+  function updatePathSummary(path, target, nodesById, statuses) {
+    const summary = document.getElementById('path-summary');
+
+    if (!target) {
+      summary.textContent = 'Click a lesson to open it, or pick a target to see the shortest route there.';
+      return;
+    }
+    if (path.length === 0) {
+      summary.textContent = 'No route found to that lesson.';
+      return;
+    }
+
+    const remaining = path.filter(id => statuses[id] !== 'completed');
+    if (remaining.length === 0) {
+      summary.textContent = 'You have already completed this lesson.';
+      return;
+    }
+
+    const titles = remaining.map(id => (nodesById.get(id) || { title: id }).title);
+    summary.textContent = `${remaining.length} lesson${remaining.length === 1 ? '' : 's'} to go: ${titles.join(' → ')}`;
+  }
+
+  function truncate(text, length) {
+    return text.length > length ? text.slice(0, length - 1) + '…' : text;
+  }
+
+  function svgElement(name, attrs) {
+    const el = document.createElementNS(SVG_NS, name);
+    Object.keys(attrs).forEach(key => el.setAttribute(key, attrs[key]));
+    return el;
+  }
+
+  /**
+   * Handle messages from extension
+   */
+  window.addEventListener('message', event => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'graph':
+        render(message);
+        break;
+    }
+  });
+
+  // Initialize when DOM is ready
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initialize);
+  } else {
+    initialize();
+  }
+})();
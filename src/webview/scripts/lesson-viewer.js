@@ -2,9 +2,13 @@
  * Lesson Viewer Script
  *
  * Runs in the webview context to handle:
- * - Command button clicks
+ * - Command button clicks (with a hover preview of the exact terminal command)
  * - Code copying
- * - Progress tracking
+ * - Running code blocks in a terminal
+ * - Showing pass/fail status of commands run for a step
+ * - Step checklist (done/failed/pending), progress bar and resume action
+ * - Notes panel (lesson notes and notes pinned to sections, autosaved)
+ * - Progress tracking (including reporting activity, for time on lesson)
  * - Message passing to extension
  */
 
@@ -12,13 +16,56 @@
   // Get VS Code API
   const vscode = acquireVsCodeApi();
 
+  // Step key → 'done' | 'failed' (steps not listed are pending)
+  const stepStates = {};
+
+  // Lesson note and notes pinned to sections (anchor → { heading, text })
+  const notes = { lesson: '', sections: {} };
+  let noteAnchor = '';  // Section being edited ('' = whole lesson)
+  let noteSaveTimer;
+
+  /**
+   * Delay after the last keystroke before a note is saved (ms)
+   */
+  const NOTE_SAVE_DELAY = 600;
+
+  /**
+   * Minimum time between activity reports to the extension (ms)
+   */
+  const ACTIVITY_REPORT_INTERVAL = 30000;
+  let lastActivityReport = 0;
+
   /**
    * Initialize lesson viewer
    */
   function initialize() {
     setupCommandButtons();
     setupCodeBlocks();
+    setupRunnableBlocks();
+    setupProgressBar();
+    setupNotes();
+    setupActivityReporting();
     restoreScrollPosition();
+
+    // Let the extension know it can send scroll/highlight requests
+    vscode.postMessage({ type: 'ready' });
+  }
+
+  /**
+   * Report scrolling, clicks and typing so the extension doesn't count the
+   * lesson as idle (throttled)
+   */
+  function setupActivityReporting() {
+    const report = () => {
+      const now = Date.now();
+      if (now - lastActivityReport >= ACTIVITY_REPORT_INTERVAL) {
+        lastActivityReport = now;
+        vscode.postMessage({ type: 'activity' });
+      }
+    };
+    ['scroll', 'mousedown', 'keydown', 'wheel'].forEach(eventName => {
+      window.addEventListener(eventName, report, { passive: true });
+    });
   }
 
   /**
@@ -36,7 +83,8 @@
           // Send message to extension to execute command
           const message = {
             type: 'executeCommand',
-            command: commandId
+            command: commandId,
+            stepKey: this.getAttribute('data-step-key')
           };
 
           // If this is a lesson navigation button, include the lesson ID
@@ -46,12 +94,14 @@
 
           vscode.postMessage(message);
 
-          // Visual feedback
-          this.textContent = '✓ ' + this.textContent;
+          // Visual feedback (a text node, so the command preview inside
+          // the button is left alone)
+          const check = document.createTextNode('✓ ');
+          this.insertBefore(check, this.firstChild);
           this.style.background = '#27AE60';
 
           setTimeout(() => {
-            this.textContent = this.textContent.replace('✓ ', '');
+            check.remove();
             this.style.background = '';
           }, 2000);
         }
@@ -121,6 +171,307 @@
     });
   }
 
+  /**
+   * Add Run buttons to runnable code blocks (```bash run)
+   */
+  function setupRunnableBlocks() {
+    const blocks = document.querySelectorAll('pre[data-runnable]');
+
+    blocks.forEach(pre => {
+      const terminal = pre.getAttribute('data-terminal');
+      const runButton = document.createElement('button');
+      runButton.className = 'run-button';
+      runButton.textContent = '▶ Run';
+      runButton.title = `Run in the ${terminal} terminal`;
+
+      runButton.addEventListener('click', () => {
+        vscode.postMessage({
+          type: 'runCode',
+          code: pre.querySelector('code').textContent,
+          terminal: terminal,
+          stepKey: pre.getAttribute('data-step-key')
+        });
+
+        // Visual feedback
+        runButton.textContent = '✓ Sent';
+        setTimeout(() => {
+          runButton.textContent = '▶ Run';
+        }, 2000);
+      });
+
+      pre.style.position = 'relative';
+      pre.appendChild(runButton);
+    });
+  }
+
+  /**
+   * Steps of the lesson in page order (one per step key)
+   */
+  function getSteps() {
+    const steps = [];
+    const seen = new Set();
+    document.querySelectorAll('.lesson-content [data-step-key]').forEach(element => {
+      const key = element.getAttribute('data-step-key');
+      if (!seen.has(key)) {
+        seen.add(key);
+        steps.push({ key, element });
+      }
+    });
+    return steps;
+  }
+
+  /**
+   * Add the sticky progress bar for lessons that have steps
+   */
+  function setupProgressBar() {
+    if (getSteps().length === 0) {
+      return;
+    }
+
+    const bar = document.createElement('div');
+    bar.id = 'step-progress';
+    bar.className = 'step-progress';
+    bar.innerHTML = '<div class="step-progress-track"><div class="step-progress-fill"></div></div>' +
+      '<span class="step-progress-label"></span>' +
+      '<button class="step-progress-resume" hidden>Resume at next step ↓</button>';
+    bar.querySelector('.step-progress-resume').addEventListener('click', resumeAtNextStep);
+    document.body.insertBefore(bar, document.body.firstChild);
+
+    updateProgressBar();
+  }
+
+  /**
+   * Update the progress bar from the current step states
+   */
+  function updateProgressBar() {
+    const bar = document.getElementById('step-progress');
+    if (!bar) {
+      return;
+    }
+
+    const steps = getSteps();
+    const done = steps.filter(step => stepStates[step.key] === 'done').length;
+    const failed = steps.filter(step => stepStates[step.key] === 'failed').length;
+
+    bar.querySelector('.step-progress-fill').style.width = `${Math.round((done / steps.length) * 100)}%`;
+    bar.querySelector('.step-progress-label').textContent =
+      `${done} of ${steps.length} steps done` + (failed ? ` · ${failed} failed` : '');
+    bar.querySelector('.step-progress-resume').hidden = done === 0 || done === steps.length;
+  }
+
+  /**
+   * Attach a preview of the exact terminal command to each command button
+   * that runs one (shown on hover/focus, before running it)
+   */
+  function showCommandPreviews(previews) {
+    document.querySelectorAll('.tt-command-button[data-command]').forEach(button => {
+      const preview = previews[button.getAttribute('data-command')];
+      const existing = button.querySelector('.command-preview');
+      if (existing) {
+        existing.remove();
+      }
+      if (!preview) {
+        return;
+      }
+
+      const tooltip = document.createElement('span');
+      tooltip.className = 'command-preview';
+      tooltip.setAttribute('role', 'tooltip');
+      const label = document.createElement('span');
+      label.className = 'command-preview-label';
+      label.textContent = 'Runs:';
+      const code = document.createElement('code');
+      code.textContent = preview;
+      tooltip.append(label, code);
+      button.appendChild(tooltip);
+      button.classList.add('has-command-preview');
+    });
+  }
+
+  /**
+   * Apply step states (merged into the known states) to buttons and blocks
+   */
+  function applyStepStates(states) {
+    Object.assign(stepStates, states);
+
+    document.querySelectorAll('.lesson-content [data-step-key]').forEach(element => {
+      const state = stepStates[element.getAttribute('data-step-key')] || 'pending';
+      element.classList.toggle('step-done', state === 'done');
+      element.classList.toggle('step-failed', state === 'failed');
+    });
+
+    updateProgressBar();
+  }
+
+  /**
+   * Scroll to the first step that isn't done yet
+   */
+  function resumeAtNextStep() {
+    const next = getSteps().find(step => stepStates[step.key] !== 'done');
+    if (!next) {
+      return;
+    }
+
+    next.element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    next.element.classList.add('step-next');
+    setTimeout(() => {
+      next.element.classList.remove('step-next');
+    }, 2000);
+  }
+
+  /**
+   * Headings a note can be pinned to
+   */
+  function getNoteHeadings() {
+    return Array.from(document.querySelectorAll('.lesson-content h2[id], .lesson-content h3[id]'));
+  }
+
+  /**
+   * Add the notes panel, its toggle and a pin button on each heading
+   */
+  function setupNotes() {
+    const toggle = document.createElement('button');
+    toggle.className = 'notes-toggle';
+    toggle.textContent = '📝 Notes';
+    toggle.addEventListener('click', () => {
+      const panel = document.getElementById('notes-panel');
+      if (panel.hidden) {
+        openNotes(noteAnchor);
+      } else {
+        closeNotes();
+      }
+    });
+
+    const panel = document.createElement('aside');
+    panel.id = 'notes-panel';
+    panel.className = 'notes-panel';
+    panel.hidden = true;
+    panel.innerHTML = '<div class="notes-header"><strong>📝 Notes</strong><button class="notes-close" title="Close">✕</button></div>' +
+      '<select class="notes-section"><option value="">Whole lesson</option></select>' +
+      '<textarea class="notes-editor" placeholder="Markdown supported. Notes save automatically."></textarea>' +
+      '<div class="notes-footer"><span class="notes-status"></span><button class="notes-export">Export all notes</button></div>';
+
+    const select = panel.querySelector('.notes-section');
+    getNoteHeadings().forEach(heading => {
+      const option = document.createElement('option');
+      option.value = heading.id;
+      option.textContent = (heading.tagName === 'H3' ? '  ' : '') + heading.textContent;
+      select.appendChild(option);
+
+      const pin = document.createElement('button');
+      pin.className = 'note-pin';
+      pin.textContent = '📌';
+      pin.title = 'Note for this section';
+      pin.addEventListener('click', () => openNotes(heading.id));
+      heading.appendChild(pin);
+    });
+
+    select.addEventListener('change', () => {
+      saveNoteNow();
+      loadNote(select.value);
+    });
+    panel.querySelector('.notes-editor').addEventListener('input', () => {
+      panel.querySelector('.notes-status').textContent = 'Saving…';
+      clearTimeout(noteSaveTimer);
+      noteSaveTimer = setTimeout(saveNoteNow, NOTE_SAVE_DELAY);
+    });
+    panel.querySelector('.notes-close').addEventListener('click', closeNotes);
+    panel.querySelector('.notes-export').addEventListener('click', () => {
+      saveNoteNow();
+      vscode.postMessage({ type: 'exportNotes' });
+    });
+
+    document.body.appendChild(toggle);
+    document.body.appendChild(panel);
+  }
+
+  /**
+   * Heading text without the pin button
+   */
+  function headingText(anchor) {
+    const heading = document.getElementById(anchor);
+    return heading ? heading.textContent.replace(/📌$/, '').trim() : anchor;
+  }
+
+  /**
+   * Show a note (lesson note for '') in the editor
+   */
+  function loadNote(anchor) {
+    noteAnchor = anchor;
+    const panel = document.getElementById('notes-panel');
+    panel.querySelector('.notes-section').value = anchor;
+    panel.querySelector('.notes-editor').value = anchor
+      ? (notes.sections[anchor] ? notes.sections[anchor].text : '')
+      : notes.lesson;
+    panel.querySelector('.notes-status').textContent = '';
+  }
+
+  /**
+   * Save the note being edited, if it has pending changes
+   */
+  function saveNoteNow() {
+    if (noteSaveTimer === undefined) {
+      return;
+    }
+    clearTimeout(noteSaveTimer);
+    noteSaveTimer = undefined;
+
+    const text = document.querySelector('#notes-panel .notes-editor').value;
+    const message = { type: 'saveNote', lessonId: getCurrentLessonId(), text };
+    if (noteAnchor) {
+      message.anchor = noteAnchor;
+      message.heading = headingText(noteAnchor);
+      if (text.trim()) {
+        notes.sections[noteAnchor] = { heading: message.heading, text };
+      } else {
+        delete notes.sections[noteAnchor];
+      }
+    } else {
+      notes.lesson = text;
+    }
+
+    vscode.postMessage(message);
+    updateNotePins();
+  }
+
+  /**
+   * Open the notes panel at a section ('' = whole lesson)
+   */
+  function openNotes(anchor, focus = true) {
+    saveNoteNow();
+    document.getElementById('notes-panel').hidden = false;
+    document.body.classList.add('notes-open');
+    loadNote(anchor);
+    if (focus) {
+      document.querySelector('#notes-panel .notes-editor').focus();
+    }
+    vscode.setState({ ...vscode.getState(), notesOpen: true });
+  }
+
+  /**
+   * Close the notes panel (saving pending changes)
+   */
+  function closeNotes() {
+    saveNoteNow();
+    document.getElementById('notes-panel').hidden = true;
+    document.body.classList.remove('notes-open');
+    vscode.setState({ ...vscode.getState(), notesOpen: false });
+  }
+
+  /**
+   * Mark headings that have a pinned note
+   */
+  function updateNotePins() {
+    getNoteHeadings().forEach(heading => {
+      heading.classList.toggle('has-note', Boolean(notes.sections[heading.id]));
+    });
+    const toggle = document.querySelector('.notes-toggle');
+    if (toggle) {
+      const count = Object.keys(notes.sections).length + (notes.lesson.trim() ? 1 : 0);
+      toggle.textContent = count ? `📝 Notes (${count})` : '📝 Notes';
+    }
+  }
+
   /**
    * Get current lesson ID from body data attribute
    */
@@ -156,6 +507,93 @@
     });
   }
 
+  /**
+   * Show (or update) the content error banner at the top of the page
+   */
+  function showContentError(text) {
+    let banner = document.getElementById('content-error-banner');
+    if (!banner) {
+      banner = document.createElement('div');
+      banner.id = 'content-error-banner';
+      banner.className = 'content-error-banner warning';
+      banner.innerHTML = '<strong>⚠️ Lesson content failed to reload</strong>' +
+        '<pre></pre>' +
+        '<span class="content-error-hint">Showing the last version that loaded. Fix the file and save to reload.</span>';
+      document.body.insertBefore(banner, document.body.firstChild);
+    }
+    banner.querySelector('pre').textContent = text;
+  }
+
+  /**
+   * Format a duration in ms as "850ms", "12.3s" or "2m 5s"
+   */
+  function formatDuration(ms) {
+    if (ms < 1000) {
+      return `${ms}ms`;
+    }
+    if (ms < 60000) {
+      return `${(ms / 1000).toFixed(1)}s`;
+    }
+    return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+  }
+
+  /**
+   * Show the outcome of a step's commands below its button or code block
+   */
+  function showStepStatus(message) {
+    const selector = `.lesson-content [data-step-key="${CSS.escape(message.stepKey)}"]`;
+    document.querySelectorAll(selector).forEach(step => renderStepStatus(step, message));
+  }
+
+  /**
+   * Render a step status annotation after one button or code block
+   */
+  function renderStepStatus(step, message) {
+    let status = step.nextElementSibling;
+    if (!status || !status.classList.contains('step-status')) {
+      status = document.createElement('div');
+      step.insertAdjacentElement('afterend', status);
+    }
+    status.className = `step-status step-status-${message.status}`;
+
+    const labels = {
+      running: '⏳ Running…',
+      passed: '✓ Passed',
+      failed: '✗ Failed',
+      confirmed: '✓ Marked done',
+      unknown: '• Sent to terminal (result not available)'
+    };
+    const details = [];
+    if (message.exitCode !== undefined) {
+      details.push(`exit code ${message.exitCode}`);
+    }
+    if (message.durationMs !== undefined) {
+      details.push(formatDuration(message.durationMs));
+    }
+
+    status.textContent = labels[message.status] + (details.length ? ` (${details.join(', ')})` : '');
+
+    // The step stays pending until the user says it worked
+    if (message.status === 'unknown') {
+      const markDone = document.createElement('button');
+      markDone.className = 'step-mark-done';
+      markDone.textContent = 'Mark done';
+      markDone.title = 'Count this step as completed';
+      markDone.addEventListener('click', () => {
+        vscode.postMessage({ type: 'markStepDone', stepKey: message.stepKey });
+        showStepStatus({ stepKey: message.stepKey, status: 'confirmed' });
+      });
+      status.appendChild(markDone);
+    }
+
+    if (message.output && message.output.length > 0) {
+      const output = document.createElement('pre');
+      output.className = 'step-status-output';
+      output.textContent = message.output.join('\n');
+      status.appendChild(output);
+    }
+  }
+
   /**
    * Handle messages from extension
    */
@@ -176,6 +614,44 @@
         }
         break;
 
+      case 'contentError':
+        // Content failed to reload - keep the last good page and say why
+        showContentError(message.message);
+        break;
+
+      case 'stepStates':
+        // Done/failed steps (all of them when the lesson opens)
+        applyStepStates(message.states);
+        break;
+
+      case 'notes':
+        // Saved notes for this lesson
+        notes.lesson = message.notes;
+        notes.sections = message.sectionNotes;
+        updateNotePins();
+        // Keep the panel open across reloads of the same lesson
+        const state = vscode.getState();
+        if (state && state.notesOpen && state.lessonId === getCurrentLessonId()) {
+          openNotes('', false);
+        }
+        break;
+
+      case 'noteSaved':
+        if ((message.anchor || '') === noteAnchor) {
+          document.querySelector('#notes-panel .notes-status').textContent = 'Saved';
+        }
+        break;
+
+      case 'commandPreviews':
+        // Exact terminal commands behind command buttons
+        showCommandPreviews(message.previews);
+        break;
+
+      case 'stepStatus':
+        // A step's commands started or finished
+        showStepStatus(message);
+        break;
+
       case 'highlight':
         // Highlight specific section
         const section = document.getElementById(message.sectionId);
@@ -190,8 +666,11 @@
     }
   });
 
-  // Save scroll position before unload
-  window.addEventListener('beforeunload', saveScrollPosition);
+  // Save scroll position (and any pending note) before unload
+  window.addEventListener('beforeunload', () => {
+    saveNoteNow();
+    saveScrollPosition();
+  });
 
   // Save scroll position periodically
   let scrollTimeout;
@@ -0,0 +1,236 @@
+/**
+ * Progress Dashboard Script
+ *
+ * Runs in the webview context to handle:
+ * - Rendering overall statistics and per-category completion bars
+ * - Rendering the activity calendar and streaks
+ * - Rendering time spent per lesson
+ * - Opening lessons from "Continue" and other lesson links
+ */
+
+(function() {
+  // Get VS Code API
+  const vscode = acquireVsCodeApi();
+
+  /**
+   * Initialize dashboard view
+   */
+  function initialize() {
+    document.getElementById('show-graph').addEventListener('click', () => {
+      vscode.postMessage({ type: 'showLessonGraph' });
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  }
+
+  /**
+   * Format seconds as "45s", "12m" or "2h 5m"
+   */
+  function formatDuration(seconds) {
+    if (seconds < 60) {
+      return `${Math.round(seconds)}s`;
+    }
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) {
+      return `${minutes}m`;
+    }
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  /**
+   * Format a timestamp relative to now ("today", "yesterday", "3 days ago")
+   */
+  function formatRelative(timestamp) {
+    const days = Math.floor((Date.now() - timestamp) / 86400000);
+    if (days <= 0) {
+      return 'today';
+    }
+    return days === 1 ? 'yesterday' : `${days} days ago`;
+  }
+
+  /**
+   * Create an element with a class and text
+   */
+  function element(tag, className, text) {
+    const el = document.createElement(tag);
+    if (className) {
+      el.className = className;
+    }
+    if (text !== undefined) {
+      el.textContent = text;
+    }
+    return el;
+  }
+
+  /**
+   * Button that opens a lesson
+   */
+  function lessonLink(lessonId, title) {
+    const link = element('button', 'link-button', title);
+    link.addEventListener('click', () => {
+      vscode.postMessage({ type: 'openLesson', lessonId });
+    });
+    return link;
+  }
+
+  /**
+   * Headline numbers
+   */
+  function renderSummary(statistics, mostRecentTitle, longestTitle, mostRecentId, longestId) {
+    const summary = document.getElementById('summary');
+    summary.innerHTML = '';
+
+    const percentage = Number.isFinite(statistics.completionPercentage)
+      ? Math.round(statistics.completionPercentage)
+      : 0;
+
+    const cards = [
+      ['Completed', `${statistics.completedLessons} / ${statistics.totalLessons}`, `${percentage}%`],
+      ['In progress', String(statistics.inProgressLessons), `${statistics.notStartedLessons} not started`],
+      ['Time spent', formatDuration(statistics.totalTimeSpent), statistics.completedLessons > 0
+        ? `~${formatDuration(statistics.averageTimePerLesson)} per completed lesson`
+        : ''],
+    ];
+
+    cards.forEach(([label, value, detail]) => {
+      const card = element('div', 'summary-card');
+      card.appendChild(element('div', 'summary-label', label));
+      card.appendChild(element('div', 'summary-value', value));
+      card.appendChild(element('div', 'summary-detail', detail));
+      summary.appendChild(card);
+    });
+
+    const links = element('div', 'summary-card');
+    links.appendChild(element('div', 'summary-label', 'Most recent'));
+    links.appendChild(mostRecentTitle ? lessonLink(mostRecentId, mostRecentTitle) : element('div', 'summary-detail', '—'));
+    links.appendChild(element('div', 'summary-label', 'Most time'));
+    links.appendChild(longestTitle ? lessonLink(longestId, longestTitle) : element('div', 'summary-detail', '—'));
+    summary.appendChild(links);
+  }
+
+  /**
+   * In-progress lessons to pick up again
+   */
+  function renderContinue(lessons) {
+    const container = document.getElementById('continue');
+    container.innerHTML = '';
+
+    if (lessons.length === 0) {
+      container.appendChild(element('p', 'empty', 'No lessons in progress. Open a lesson from the sidebar to get started.'));
+      return;
+    }
+
+    lessons.forEach(lesson => {
+      const row = element('div', 'continue-row');
+      row.appendChild(lessonLink(lesson.id, `▶ ${lesson.title}`));
+      row.appendChild(element('span', 'muted', `opened ${formatRelative(lesson.lastAccessed)}`));
+      container.appendChild(row);
+    });
+  }
+
+  /**
+   * Completion bar per category (completed + in progress segments)
+   */
+  function renderCategories(categories) {
+    const container = document.getElementById('categories');
+    container.innerHTML = '';
+
+    categories.forEach(category => {
+      const row = element('div', 'category-row');
+      row.appendChild(element('span', 'category-title', category.title));
+
+      const bar = element('div', 'bar');
+      const completed = element('div', 'bar-completed');
+      completed.style.width = `${(category.completed / category.total) * 100}%`;
+      const inProgress = element('div', 'bar-in-progress');
+      inProgress.style.width = `${(category.inProgress / category.total) * 100}%`;
+      bar.appendChild(completed);
+      bar.appendChild(inProgress);
+      row.appendChild(bar);
+
+      row.appendChild(element('span', 'muted', `${category.completed} / ${category.total}`));
+      container.appendChild(row);
+    });
+  }
+
+  /**
+   * Activity calendar: one column per week, one cell per day
+   */
+  function renderActivity(activity, currentStreak, longestStreak) {
+    const streak = document.getElementById('streak');
+    streak.textContent = currentStreak > 0
+      ? `🔥 ${currentStreak}-day streak · longest ${longestStreak} days`
+      : `No current streak · longest ${longestStreak} days`;
+
+    const calendar = document.getElementById('calendar');
+    calendar.innerHTML = '';
+
+    // Pad the first week so rows line up with weekdays (Sunday first)
+    const [year, month, day] = activity[0].date.split('-').map(Number);
+    const firstWeekday = new Date(year, month - 1, day).getDay();
+    for (let i = 0; i < firstWeekday; i++) {
+      calendar.appendChild(element('div', 'day empty'));
+    }
+
+    activity.forEach(entry => {
+      const level = entry.count === 0 ? 0 : Math.min(entry.count, 4);
+      const cell = element('div', `day level-${level}`);
+      cell.title = `${entry.date}: ${entry.count} lesson${entry.count === 1 ? '' : 's'}`;
+      calendar.appendChild(cell);
+    });
+  }
+
+  /**
+   * Time spent per lesson, as bars relative to the longest
+   */
+  function renderLessonTimes(lessonTimes) {
+    const container = document.getElementById('lesson-times');
+    container.innerHTML = '';
+
+    if (lessonTimes.length === 0) {
+      container.appendChild(element('p', 'empty', 'Time is recorded while a lesson is open.'));
+      return;
+    }
+
+    const longest = lessonTimes[0].timeSpentSeconds;
+    lessonTimes.forEach(lesson => {
+      const row = element('div', 'time-row');
+      row.appendChild(lessonLink(lesson.id, lesson.title));
+
+      const bar = element('div', 'bar');
+      const fill = element('div', `bar-${lesson.status}`);
+      fill.style.width = `${(lesson.timeSpentSeconds / longest) * 100}%`;
+      bar.appendChild(fill);
+      row.appendChild(bar);
+
+      row.appendChild(element('span', 'muted', formatDuration(lesson.timeSpentSeconds)));
+      container.appendChild(row);
+    });
+  }
+
+  /**
+   * Handle messages from extension
+   */
+  window.addEventListener('message', event => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'dashboard':
+        const { statistics, dashboard } = message;
+        renderSummary(statistics, message.mostRecentTitle, message.longestTitle,
+          statistics.mostRecentLesson, statistics.longestLesson);
+        renderContinue(dashboard.continueLessons);
+        renderCategories(dashboard.categories);
+        renderActivity(dashboard.activity, dashboard.currentStreak, dashboard.longestStreak);
+        renderLessonTimes(dashboard.lessonTimes);
+        break;
+    }
+  });
+
+  // Initialize when DOM is ready
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initialize);
+  } else {
+    initialize();
+  }
+})();
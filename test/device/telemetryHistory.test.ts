@@ -0,0 +1,100 @@
+/**
+ * Telemetry History Tests
+ *
+ * Verifies the bounded per-chip history behind the Device Monitor:
+ * sample retention, threshold breach detection and CSV export.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseTtSmiSnapshot } from '../../src/utils/TtSmiParser';
+import { TelemetryHistory, getChipThresholds } from '../../src/state/TelemetryHistory';
+import { DeviceInventory } from '../../src/types';
+
+const fixturesDir = path.join(__dirname, '../fixtures/tt-smi');
+
+function loadInventory(name: string): DeviceInventory {
+  return parseTtSmiSnapshot(fs.readFileSync(path.join(fixturesDir, name), 'utf8'));
+}
+
+/**
+ * Copy of an inventory with every chip's ASIC temperature overridden
+ */
+function withTemperature(inventory: DeviceInventory, asic: number): DeviceInventory {
+  return {
+    ...inventory,
+    chips: inventory.chips.map(chip => ({ ...chip, temperatures: { ...chip.temperatures, asic } })),
+  };
+}
+
+describe('TelemetryHistory', () => {
+  it('records one sample per chip', () => {
+    const history = new TelemetryHistory();
+    history.record(loadInventory('n300.json'), 1000);
+
+    expect(history.getChipIndices()).to.deep.equal([0, 1]);
+    expect(history.size()).to.equal(2);
+
+    const [sample] = history.getSamples(0);
+    expect(sample.timestamp).to.equal(1000);
+    expect(sample.boardType).to.equal('n300 L');
+  });
+
+  it('keeps only the most recent samples per chip', () => {
+    const history = new TelemetryHistory(3);
+    const inventory = loadInventory('n150.json');
+
+    for (let t = 1; t <= 5; t++) {
+      history.record(inventory, t);
+    }
+
+    expect(history.getSamples(0).map(sample => sample.timestamp)).to.deep.equal([3, 4, 5]);
+  });
+
+  it('takes thresholds from firmware limits', () => {
+    const chip = loadInventory('n150.json').chips[0];
+
+    expect(getChipThresholds(chip).temperature).to.equal(75);
+    expect(getChipThresholds(chip).power).to.equal(170);
+  });
+
+  it('reports a breach once until the metric recovers', () => {
+    const history = new TelemetryHistory();
+    const inventory = loadInventory('n150.json');
+
+    const first = history.record(withTemperature(inventory, 80), 1);
+    expect(first).to.have.length(1);
+    expect(first[0]).to.include({ chipIndex: 0, metric: 'temperature', value: 80, limit: 75 });
+
+    expect(history.record(withTemperature(inventory, 82), 2)).to.be.empty;
+    expect(history.record(withTemperature(inventory, 60), 3)).to.be.empty;
+    expect(history.record(withTemperature(inventory, 79), 4)).to.have.length(1);
+  });
+
+  it('clears samples and breach state', () => {
+    const history = new TelemetryHistory();
+    const hot = withTemperature(loadInventory('n150.json'), 80);
+
+    history.record(hot, 1);
+    history.clear();
+
+    expect(history.size()).to.equal(0);
+    expect(history.record(hot, 2)).to.have.length(1);
+  });
+
+  it('exports CSV ordered by time then chip', () => {
+    const history = new TelemetryHistory();
+    const inventory = loadInventory('n300.json');
+    history.record(inventory, Date.UTC(2025, 10, 4, 10, 0, 0));
+    history.record(inventory, Date.UTC(2025, 10, 4, 10, 0, 10));
+
+    const lines = history.toCsv().trim().split('\n');
+
+    expect(lines[0]).to.equal('timestamp,chip,board_type,asic_temperature_c,power_w,aiclk_mhz,voltage_v');
+    expect(lines).to.have.length(5);
+    expect(lines[1]).to.match(/^2025-11-04T10:00:00\.000Z,0,"n300 L",/);
+    expect(lines[2]).to.match(/^2025-11-04T10:00:00\.000Z,1,"n300 R",/);
+    expect(lines[3]).to.match(/^2025-11-04T10:00:10\.000Z,0,/);
+  });
+});
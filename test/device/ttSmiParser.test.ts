@@ -0,0 +1,198 @@
+/**
+ * tt-smi Parser Tests
+ *
+ * Verifies device inventory parsing and topology inference against
+ * captured `tt-smi -s` snapshots in test/fixtures/tt-smi/.
+ * No hardware required.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  parseTtSmiSnapshot,
+  inferHardwareType,
+  normalizeBoardModel,
+  formatHardwareType,
+  assessInventoryHealth,
+  TtSmiParseError,
+} from '../../src/utils/TtSmiParser';
+
+const fixturesDir = path.join(__dirname, '../fixtures/tt-smi');
+
+function loadFixture(name: string): string {
+  return fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+}
+
+describe('tt-smi Parser', () => {
+  describe('parseTtSmiSnapshot()', () => {
+    it('parses a single n150 card', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('n150.json'));
+
+      expect(inventory.chips).to.have.length(1);
+      expect(inventory.boardCount).to.equal(1);
+      expect(inventory.hardwareType).to.equal('n150');
+
+      const chip = inventory.chips[0];
+      expect(chip.boardType).to.equal('n150 L');
+      expect(chip.boardModel).to.equal('n150');
+      expect(chip.architecture).to.equal('wormhole');
+      expect(chip.pciBusId).to.equal('0000:07:00.0');
+      expect(chip.isRemote).to.be.false;
+      expect(chip.firmwareBundle).to.equal('80.10.0.0');
+      expect(chip.firmwares.arc_fw).to.equal('2.33.0.0');
+      expect(chip.dramStatus).to.be.true;
+      expect(chip.dramSpeed).to.equal('12G');
+    });
+
+    it('converts padded telemetry strings to numbers', () => {
+      const chip = parseTtSmiSnapshot(loadFixture('n150.json')).chips[0];
+
+      expect(chip.telemetry.power).to.equal(13.0);
+      expect(chip.telemetry.aiclk).to.equal(500);
+      expect(chip.telemetry.voltage).to.equal(0.76);
+      expect(chip.telemetry.current).to.equal(19.0);
+      expect(chip.telemetry.arcHeartbeat).to.equal(1021);
+      expect(chip.temperatures.asic).to.equal(44.4);
+      expect(chip.limits.thermalLimit).to.equal(75);
+      expect(chip.limits.tdpLimit).to.equal(170);
+    });
+
+    it('decodes SMBus board and regulator temperatures', () => {
+      const chip = parseTtSmiSnapshot(loadFixture('n150.json')).chips[0];
+
+      expect(chip.temperatures.vreg).to.equal(44);
+      expect(chip.temperatures.board).to.equal(39);
+    });
+
+    it('reports both chips of an n300 as one board', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('n300.json'));
+
+      expect(inventory.chips).to.have.length(2);
+      expect(inventory.boardCount).to.equal(1);
+      expect(inventory.hardwareType).to.equal('n300');
+      expect(inventory.chips.map(chip => chip.chipPosition)).to.deep.equal(['L', 'R']);
+    });
+
+    it('marks the ethernet-connected n300 chip as remote', () => {
+      const [local, remote] = parseTtSmiSnapshot(loadFixture('n300.json')).chips;
+
+      expect(local.isRemote).to.be.false;
+      expect(remote.isRemote).to.be.true;
+      expect(remote.pciBusId).to.be.null;
+    });
+
+    it('infers T3K from four n300 boards', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('t3k.json'));
+
+      expect(inventory.chips).to.have.length(8);
+      expect(inventory.boardCount).to.equal(4);
+      expect(inventory.hardwareType).to.equal('t3k');
+    });
+
+    it('parses Blackhole boards', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('p150.json'));
+      const chip = inventory.chips[0];
+
+      expect(inventory.hardwareType).to.equal('p150');
+      expect(chip.architecture).to.equal('blackhole');
+      expect(chip.chipPosition).to.be.null;
+      expect(chip.temperatures.vreg).to.be.null;
+      expect(chip.firmwareBundle).to.equal('18.7.0.0');
+    });
+
+    it('extracts the JSON document from output with log lines', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('n150-noisy.txt'));
+
+      expect(inventory.chips).to.have.length(1);
+      expect(inventory.hardwareType).to.equal('n150');
+    });
+
+    it('parses host information', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('n300.json'));
+
+      expect(inventory.host?.hostname).to.equal('tt-n300-02');
+      expect(inventory.host?.driver).to.equal('TT-KMD 1.31');
+      expect(inventory.snapshotTime).to.equal('2025-11-04T10:12:41.302144');
+    });
+
+    it('returns an empty inventory when no devices are present', () => {
+      const inventory = parseTtSmiSnapshot(loadFixture('no-devices.json'));
+
+      expect(inventory.chips).to.be.empty;
+      expect(inventory.hardwareType).to.be.null;
+    });
+
+    it('throws TtSmiParseError for non-JSON output', () => {
+      expect(() => parseTtSmiSnapshot('Board Type: N150\nFW Version: 18.7.0')).to.throw(TtSmiParseError);
+    });
+
+    it('throws TtSmiParseError when device_info is missing', () => {
+      expect(() => parseTtSmiSnapshot('{"time": "now"}')).to.throw(TtSmiParseError, /device_info/);
+    });
+
+    it('skips malformed devices and host information', () => {
+      const inventory = parseTtSmiSnapshot(JSON.stringify({
+        time: 42,
+        host_info: 'tt-n150-01',
+        device_info: [null, 'n150', { board_info: { board_type: 'n150 L', board_id: 7 }, telemetry: [] }],
+      }));
+
+      expect(inventory.chips.map(chip => chip.index)).to.deep.equal([2]);
+      expect(inventory.chips[0]).to.include({ boardModel: 'n150', boardId: '7' });
+      expect(inventory.chips[0].telemetry.power).to.be.null;
+      expect(inventory.host).to.be.null;
+      expect(inventory.snapshotTime).to.be.null;
+    });
+  });
+
+  describe('normalizeBoardModel()', () => {
+    it('maps tt-smi board types to hardware types', () => {
+      expect(normalizeBoardModel('n150 L')).to.equal('n150');
+      expect(normalizeBoardModel('n300 R')).to.equal('n300');
+      expect(normalizeBoardModel('p100a')).to.equal('p100');
+      expect(normalizeBoardModel('p150c')).to.equal('p150');
+      expect(normalizeBoardModel('TT-Galaxy-WH')).to.equal('galaxy');
+      expect(normalizeBoardModel('e75')).to.be.null;
+    });
+  });
+
+  describe('inferHardwareType()', () => {
+    it('infers galaxy from 32 Wormhole chips', () => {
+      const n150 = parseTtSmiSnapshot(loadFixture('n150.json')).chips[0];
+      const chips = Array.from({ length: 32 }, (_, index) => ({ ...n150, index }));
+
+      expect(inferHardwareType(chips)).to.equal('galaxy');
+    });
+
+    it('returns null for no chips', () => {
+      expect(inferHardwareType([])).to.be.null;
+    });
+  });
+
+  describe('formatHardwareType()', () => {
+    it('formats hardware types for display', () => {
+      expect(formatHardwareType('n300')).to.equal('N300');
+      expect(formatHardwareType('t3k')).to.equal('T3K');
+      expect(formatHardwareType('galaxy')).to.equal('Galaxy');
+    });
+  });
+
+  describe('assessInventoryHealth()', () => {
+    it('is healthy when all chips are nominal', () => {
+      expect(assessInventoryHealth(parseTtSmiSnapshot(loadFixture('n300.json')))).to.equal('healthy');
+    });
+
+    it('warns when a chip failed DRAM training', () => {
+      expect(assessInventoryHealth(parseTtSmiSnapshot(loadFixture('t3k.json')))).to.equal('warning');
+    });
+
+    it('warns when a chip is at its thermal limit', () => {
+      expect(assessInventoryHealth(parseTtSmiSnapshot(loadFixture('n150-noisy.txt')))).to.equal('warning');
+    });
+
+    it('is unknown with no chips', () => {
+      expect(assessInventoryHealth(parseTtSmiSnapshot(loadFixture('no-devices.json')))).to.equal('unknown');
+    });
+  });
+});
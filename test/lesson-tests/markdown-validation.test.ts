@@ -84,8 +84,9 @@ describe('Markdown Validation Tests', () => {
                 // This is acceptable but not ideal - could be improved
                 // Not failing the test, just noting it
               } else {
-                // Verify it's a valid language specifier (alphanumeric, dash, underscore)
-                expect(remainder, `${file}:${lineNumber} - Invalid language specifier: '${remainder}'`).to.match(/^[a-zA-Z0-9_-]+$/);
+                // Verify it's a valid language specifier (alphanumeric, dash, underscore),
+                // optionally marked runnable: "bash run" and/or "bash {terminal=tt-metal}"
+                expect(remainder, `${file}:${lineNumber} - Invalid language specifier: '${remainder}'`).to.match(/^[a-zA-Z0-9_-]+( run)?( \{terminal=[a-z-]+\})?$/);
               }
 
               inCodeBlock = true;
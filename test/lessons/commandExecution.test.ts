@@ -0,0 +1,310 @@
+/**
+ * Command Execution Tests
+ *
+ * Verifies output tail capture (ANSI stripping, partial lines, line limit),
+ * which commands may fall back to a child process, and how the executor
+ * decides each run's outcome, and how commands hand back the runs they
+ * start. The executor gets a fake window, fake terminals and short timeouts.
+ */
+
+import { expect } from 'chai';
+import { OutputTail, stripAnsi } from '../../src/utils/OutputTail';
+import { isNonInteractiveCommand } from '../../src/utils/CommandClassifier';
+import { CommandExecutor, ExecutorWindow, isCommandRuns } from '../../src/utils/CommandExecutor';
+import { CommandExecution } from '../../src/types';
+
+/**
+ * Minimal event emitter matching vscode.Event
+ */
+class FakeEvent<T> {
+  readonly listeners = new Set<(event: T) => unknown>();
+
+  readonly event = (listener: (event: T) => unknown) => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+
+  fire(event: T): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
+
+interface FakeExecution {
+  read(): AsyncIterable<string>;
+}
+
+interface FakeTerminal {
+  name: string;
+  sent: string[];
+  creationOptions: { cwd?: string; env?: Record<string, string | null> };
+  shellIntegration?: { executeCommand(command: string): FakeExecution };
+  show(): void;
+  sendText(text: string): void;
+}
+
+function createWindow() {
+  const shellIntegrationChanged = new FakeEvent<unknown>();
+  const executionEnded = new FakeEvent<{ execution: FakeExecution; exitCode: number | undefined }>();
+  const terminalClosed = new FakeEvent<FakeTerminal>();
+  const window = {
+    createOutputChannel: () => ({ append() {}, appendLine() {}, show() {}, dispose() {} }),
+    onDidChangeTerminalShellIntegration: shellIntegrationChanged.event,
+    onDidEndTerminalShellExecution: executionEnded.event,
+    onDidCloseTerminal: terminalClosed.event,
+  };
+  return { window: window as unknown as ExecutorWindow, executionEnded, terminalClosed };
+}
+
+function createTerminal(output: string[] = []): FakeTerminal & { executions: FakeExecution[] } {
+  const executions: FakeExecution[] = [];
+  return {
+    name: 'Tenstorrent: tt-metal',
+    sent: [],
+    executions,
+    creationOptions: {},
+    shellIntegration: {
+      executeCommand: () => {
+        const execution = {
+          read: async function* () {
+            yield* output;
+          },
+        };
+        executions.push(execution);
+        return execution;
+      },
+    },
+    show() {},
+    sendText(text: string) {
+      this.sent.push(text);
+    },
+  };
+}
+
+/**
+ * Wait for pending timers and stream reads
+ */
+function tick(ms = 0): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('CommandExecution', () => {
+  describe('stripAnsi', () => {
+    it('removes colors, cursor movement and OSC sequences', () => {
+      expect(stripAnsi('\x1b[31mError\x1b[0m: failed')).to.equal('Error: failed');
+      expect(stripAnsi('\x1b[2K\x1b[1Gdone')).to.equal('done');
+      expect(stripAnsi('\x1b]633;C\x07output\x1b]633;D;0\x07')).to.equal('output');
+    });
+  });
+
+  describe('OutputTail', () => {
+    it('joins chunks split mid-line', () => {
+      const tail = new OutputTail();
+      tail.append('Detected 2 dev');
+      tail.append('ices\nready\n');
+      expect(tail.getLines()).to.deep.equal(['Detected 2 devices', 'ready']);
+    });
+
+    it('keeps only the last lines', () => {
+      const tail = new OutputTail(3);
+      tail.append('1\n2\n3\n4\n5\n');
+      expect(tail.getLines()).to.deep.equal(['3', '4', '5']);
+    });
+
+    it('includes an unterminated last line and drops trailing blank lines', () => {
+      const tail = new OutputTail();
+      tail.append('building\r\n\r\n');
+      expect(tail.getLines()).to.deep.equal(['building']);
+
+      tail.append('$ ');
+      expect(tail.getLines()).to.deep.equal(['building', '', '$ ']);
+    });
+
+    it('keeps the final state of carriage-return progress lines', () => {
+      const tail = new OutputTail();
+      tail.append('10%\r50%\r100%\n');
+      expect(tail.getLines()).to.deep.equal(['100%']);
+    });
+  });
+
+  describe('isNonInteractiveCommand', () => {
+    it('accepts read-only system commands, chains of them and filters after pipes', () => {
+      expect(isNonInteractiveCommand('tt-smi -s')).to.equal(true);
+      expect(isNonInteractiveCommand('uname -a && nproc; df -h | grep /dev | head -3')).to.equal(true);
+      expect(isNonInteractiveCommand('# Check the kernel\nuname -a\n')).to.equal(true);
+    });
+
+    it('rejects commands that depend on the venv, working directory or variables', () => {
+      expect(isNonInteractiveCommand('pip install flask')).to.equal(false);
+      expect(isNonInteractiveCommand('pip3 list | grep ttnn')).to.equal(false);
+      expect(isNonInteractiveCommand('pytest tests/')).to.equal(false);
+      expect(isNonInteractiveCommand('git status')).to.equal(false);
+      expect(isNonInteractiveCommand('mkdir -p ~/tt-scratchpad')).to.equal(false);
+      expect(isNonInteractiveCommand('curl -s http://localhost:8000/health')).to.equal(false);
+      expect(isNonInteractiveCommand('ls -la ~/tt-metal')).to.equal(false);
+      expect(isNonInteractiveCommand('grep ttnn requirements.txt')).to.equal(false);
+      expect(isNonInteractiveCommand('uname -a && echo $TT_METAL_HOME')).to.equal(false);
+    });
+
+    it('rejects the tt-smi TUI and unknown programs', () => {
+      expect(isNonInteractiveCommand('tt-smi')).to.equal(false);
+      expect(isNonInteractiveCommand('python3 demo.py')).to.equal(false);
+      expect(isNonInteractiveCommand('')).to.equal(false);
+    });
+
+    it('rejects commands that change shell state or need input', () => {
+      expect(isNonInteractiveCommand('cd ~/tt-metal && ls')).to.equal(false);
+      expect(isNonInteractiveCommand('source ~/tt-metal/python_env/bin/activate')).to.equal(false);
+      expect(isNonInteractiveCommand('sudo apt update')).to.equal(false);
+      expect(isNonInteractiveCommand('pip uninstall -y ttnn')).to.equal(false);
+    });
+
+    it('rejects background jobs, followed logs and command substitution', () => {
+      expect(isNonInteractiveCommand('python3 -m http.server &')).to.equal(false);
+      expect(isNonInteractiveCommand('tt-smi -s | tail -f')).to.equal(false);
+      expect(isNonInteractiveCommand('hostname $(whoami)')).to.equal(false);
+    });
+
+    it('rejects output redirection (it writes files)', () => {
+      expect(isNonInteractiveCommand('tt-smi -s > snapshot.json 2>&1')).to.equal(false);
+    });
+  });
+
+  describe('CommandExecutor', () => {
+    const timeouts = { shellIntegration: 10, longRunningGracePeriod: 20, exit: 40 };
+
+    function run(executor: CommandExecutor, terminal: FakeTerminal, command: string, longRunning = false) {
+      return executor.run(terminal as never, command, { longRunning });
+    }
+
+    it('passes or fails a run by its shell integration exit code', async () => {
+      const { window, executionEnded } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal(['\x1b[32mDetected 2 devices\x1b[0m\n']);
+
+      const passed = run(executor, terminal, 'python3 check.py');
+      await tick();
+      executionEnded.fire({ execution: terminal.executions[0], exitCode: 0 });
+      expect(await passed).to.include({ runner: 'shell-integration', status: 'passed', exitCode: 0 });
+      expect((await passed).outputTail).to.deep.equal(['Detected 2 devices']);
+
+      const failed = run(executor, terminal, 'python3 check.py');
+      await tick();
+      executionEnded.fire({ execution: terminal.executions[1], exitCode: 3 });
+      expect(await failed).to.include({ status: 'failed', exitCode: 3 });
+      expect(executionEnded.listeners.size).to.equal(0);
+    });
+
+    it('gives up as unknown when the terminal closes before the command exits', async () => {
+      const { window, executionEnded, terminalClosed } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal();
+
+      const result = run(executor, terminal, 'python3 -i');
+      await tick();
+      terminalClosed.fire(terminal);
+      expect((await result).status).to.equal('unknown');
+      expect(executionEnded.listeners.size).to.equal(0);
+      expect(terminalClosed.listeners.size).to.equal(0);
+    });
+
+    it('gives up as unknown when the command never exits', async () => {
+      const { window, executionEnded, terminalClosed } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+
+      const execution = await run(executor, createTerminal(), 'python3 -i');
+      expect(execution.status).to.equal('unknown');
+      expect(executionEnded.listeners.size).to.equal(0);
+      expect(terminalClosed.listeners.size).to.equal(0);
+    });
+
+    it('passes a long-running command that stays up for the grace period', async () => {
+      const { window } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+
+      const execution = await run(executor, createTerminal(), 'vllm serve', true);
+      expect(execution.status).to.equal('passed');
+    });
+
+    it('sends other commands as text with an unknown outcome when there is no shell integration', async () => {
+      const { window } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal();
+      delete terminal.shellIntegration;
+
+      const execution = await run(executor, terminal, 'pip install flask');
+      expect(execution).to.include({ runner: 'send-text', status: 'unknown' });
+      expect(terminal.sent).to.deep.equal(['pip install flask']);
+    });
+
+    it('runs read-only commands as a child process when there is no shell integration', async () => {
+      const { window } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal();
+      delete terminal.shellIntegration;
+      terminal.creationOptions = { cwd: '/', env: { LC_ALL: 'C' } };
+
+      const passed = await run(executor, terminal, 'uname -s');
+      expect(passed).to.include({ runner: 'process', status: 'passed', exitCode: 0 });
+      expect(passed.outputTail).to.have.lengthOf(1);
+
+      const failed = await run(executor, terminal, 'df /nonexistent-tenstorrent-path');
+      expect(failed).to.include({ runner: 'process', status: 'failed' });
+      expect(terminal.sent).to.deep.equal([]);
+    });
+
+    it('notifies listeners of the runner picked before the command runs', async () => {
+      const { window } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal();
+      delete terminal.shellIntegration;
+      const started: string[] = [];
+      executor.onDidStart(execution => started.push(`${execution.runner} ${terminal.sent.length}`));
+
+      await run(executor, terminal, 'uname -s');
+      await run(executor, terminal, 'make');
+      expect(started).to.deep.equal(['process 0', 'send-text 0']);
+    });
+
+    it('notifies listeners of finished runs until disposed', async () => {
+      const { window } = createWindow();
+      const executor = new CommandExecutor(window, timeouts);
+      const terminal = createTerminal();
+      delete terminal.shellIntegration;
+      const finished: CommandExecution[] = [];
+      executor.onDidFinish(execution => finished.push(execution));
+
+      await run(executor, terminal, 'make');
+      executor.dispose();
+      await run(executor, terminal, 'make');
+      expect(finished.map(execution => execution.command)).to.deep.equal(['make']);
+    });
+
+    it('ends runs in progress as unknown when disposed', async () => {
+      const { window, executionEnded, terminalClosed } = createWindow();
+      const executor = new CommandExecutor(window, { ...timeouts, shellIntegration: 60000, exit: 60000 });
+      const observed = run(executor, createTerminal(), 'python3 -i');
+      const waiting = createTerminal();
+      delete waiting.shellIntegration;
+      const unobserved = run(executor, waiting, 'make');
+      await tick();
+
+      executor.dispose();
+      expect(await observed).to.include({ runner: 'shell-integration', status: 'unknown' });
+      expect(await unobserved).to.include({ status: 'unknown' });
+      expect(waiting.sent).to.deep.equal([]);
+      expect(executionEnded.listeners.size).to.equal(0);
+      expect(terminalClosed.listeners.size).to.equal(0);
+    });
+  });
+
+  describe('isCommandRuns', () => {
+    it('accepts only the runs a command returns', () => {
+      expect(isCommandRuns({ runs: [] })).to.equal(true);
+      expect(isCommandRuns(undefined)).to.equal(false);
+      expect(isCommandRuns(true)).to.equal(false);
+      expect(isCommandRuns({ runs: 'make' })).to.equal(false);
+    });
+  });
+});
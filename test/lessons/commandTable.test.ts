@@ -0,0 +1,114 @@
+/**
+ * Command Table Tests
+ *
+ * Verifies that every command contributed in package.json is either run
+ * from a TERMINAL_COMMANDS template or has its own handler, that every
+ * template command is contributed, and that HANDLER_COMMANDS matches the
+ * handlers extension.ts registers (read from its source, since it needs
+ * VSCode), so lessons, the command palette and what actually runs can't
+ * drift apart. Also checks that templates leave the environment to the
+ * terminal's profile.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getCommandTemplate,
+  getCommandTemplates,
+  getTemplateCommandIds,
+  HANDLER_COMMANDS,
+  DEFAULT_TERMINAL_PROFILES,
+  TERMINAL_COMMANDS,
+  VLLM_HARDWARE_CONFIGS,
+} from '../../src/commands/terminalCommands';
+import { BUILT_IN_PROFILES } from '../../src/utils/EnvironmentProfiles';
+
+const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf8'));
+const contributed: string[] = packageJson.contributes.commands.map((entry: { command: string }) => entry.command);
+const extensionSource = fs.readFileSync(path.join(__dirname, '../../src/extension.ts'), 'utf8');
+
+describe('Command table', () => {
+  it('maps every contributed command to a template or a handler', () => {
+    const known = new Set([...getTemplateCommandIds(), ...HANDLER_COMMANDS]);
+    expect(contributed.filter(command => !known.has(command))).to.deep.equal([]);
+  });
+
+  it('contributes every template and handler command', () => {
+    expect(getTemplateCommandIds().filter(command => !contributed.includes(command))).to.deep.equal([]);
+    expect(HANDLER_COMMANDS.filter(command => !contributed.includes(command))).to.deep.equal([]);
+  });
+
+  it('gives each command exactly one template or handler', () => {
+    const templateCommands = getTemplateCommandIds();
+    expect(new Set(templateCommands).size).to.equal(templateCommands.length);
+    expect(HANDLER_COMMANDS.filter(command => templateCommands.includes(command))).to.deep.equal([]);
+  });
+
+  it('lists exactly the commands registered with their own handler', () => {
+    const registered = [...extensionSource.matchAll(/registerCommand\(\s*'([^']+)'/g)].map(match => match[1]);
+    expect([...registered].sort()).to.deep.equal([...HANDLER_COMMANDS].sort());
+
+    // Handlers passed to registerTerminalCommands replace a template's
+    const terminalHandlers = extensionSource.match(/registerTerminalCommands\(\{([^}]*)\}\)/)?.[1] ?? '';
+    const replaced = [...terminalHandlers.matchAll(/'([^']+)':/g)].map(match => match[1]);
+    expect(replaced.filter(command => !getTemplateCommandIds().includes(command))).to.deep.equal([]);
+  });
+
+  it('runs every template command in a terminal', () => {
+    for (const command of Object.values(TERMINAL_COMMANDS).filter(entry => entry.command)) {
+      expect(command.terminal, command.id).to.be.a('string');
+    }
+  });
+
+  it('only chains to templates that exist', () => {
+    for (const command of Object.values(TERMINAL_COMMANDS)) {
+      for (const action of command.postActions ?? []) {
+        if (action.type === 'run') {
+          expect(TERMINAL_COMMANDS, command.id).to.have.property(action.template);
+        }
+      }
+    }
+  });
+
+  it('asks before running destructive device commands', () => {
+    expect(getCommandTemplate('tenstorrent.resetDevice')?.confirmation?.level).to.equal('confirm');
+    expect(getCommandTemplate('tenstorrent.clearDeviceState')?.confirmation?.level).to.equal('confirm');
+    expect(getCommandTemplate('tenstorrent.clearDeviceState')?.postActions)
+      .to.deep.include({ type: 'refreshDeviceStatus', delayMs: 5000 });
+  });
+
+  it('has a vLLM server template for every hardware startVllmServerWithHardware accepts', () => {
+    for (const hardware of Object.keys(VLLM_HARDWARE_CONFIGS)) {
+      const command = TERMINAL_COMMANDS[`START_VLLM_SERVER_${hardware}`];
+      expect(command, hardware).to.exist;
+      expect(BUILT_IN_PROFILES[command.profile ?? ''].env?.MESH_DEVICE, hardware).to.equal(hardware);
+    }
+    expect(TERMINAL_COMMANDS.START_VLLM_SERVER_T3K.template).to.include('--tensor-parallel-size 8');
+    expect(BUILT_IN_PROFILES[TERMINAL_COMMANDS.START_VLLM_SERVER_P100.profile ?? ''].env?.TT_METAL_ARCH_NAME).to.equal('blackhole');
+  });
+
+  it('leaves venvs and profile variables to the terminal profile', () => {
+    for (const command of Object.values(TERMINAL_COMMANDS)) {
+      const context = command.terminal ?? 'explore';
+      if (!DEFAULT_TERMINAL_PROFILES[context] && !command.profile) {
+        continue;
+      }
+      expect(command.template, command.id).not.to.match(/bin\/activate|export (TT_METAL_HOME|MESH_DEVICE|PYTHONPATH)=/);
+    }
+  });
+
+  it('names only profiles that exist', () => {
+    for (const command of Object.values(TERMINAL_COMMANDS)) {
+      if (command.profile) {
+        expect(BUILT_IN_PROFILES, command.id).to.have.property(command.profile);
+      }
+    }
+    expect(TERMINAL_COMMANDS.RUN_FORGE_CLASSIFIER_WHEEL.profile).to.equal('forge-wheel');
+  });
+
+  it('runs chained templates after the command template', () => {
+    expect(getCommandTemplates('tenstorrent.runTtXlaDemo').map(command => command.id))
+      .to.deep.equal(['download-tt-xla-demo', 'run-tt-xla-demo']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Command Template Tests
+ *
+ * Verifies typed template variables: shell quoting, validation, default
+ * resolution, missing-variable errors and previews, and that every
+ * TERMINAL_COMMANDS template declares the variables it uses.
+ */
+
+import { expect } from 'chai';
+import {
+  expandTemplate,
+  quotePath,
+  SECRET_MASK,
+  shellQuote,
+  TemplateError,
+  TemplateSource,
+  templatePlaceholders,
+} from '../../src/utils/CommandTemplateEngine';
+import {
+  expandCommand,
+  getCommandTemplates,
+  previewCommand,
+  TERMINAL_COMMANDS,
+} from '../../src/commands/terminalCommands';
+import { TOOLCHAIN_PATHS } from '../../src/utils/ToolchainPaths';
+
+const serve: TemplateSource = {
+  template: 'cd {{ttMetalPath}} && python3 serve.py --device {{hardware}} --port {{port}}',
+  variables: {
+    ttMetalPath: { type: 'path', description: 'tt-metal directory', default: '~/tt-metal' },
+    hardware: { type: 'hardware', description: 'device type' },
+    port: { type: 'port', description: 'server port', default: '8000' },
+  },
+};
+
+describe('Command templates', () => {
+  describe('quoting', () => {
+    it('leaves safe values bare and single-quotes the rest', () => {
+      expect(shellQuote('/opt/tt-metal')).to.equal('/opt/tt-metal');
+      expect(shellQuote('my dir')).to.equal(`'my dir'`);
+      expect(shellQuote(`it's; rm -rf /`)).to.equal(`'it'\\''s; rm -rf /'`);
+      expect(shellQuote('$(whoami)')).to.equal(`'$(whoami)'`);
+      expect(shellQuote('')).to.equal(`''`);
+    });
+
+    it('keeps a leading ~/ expandable in paths', () => {
+      expect(quotePath('~/tt-metal')).to.equal('~/tt-metal');
+      expect(quotePath('~/my models/llama')).to.equal(`~/'my models/llama'`);
+      expect(quotePath('~')).to.equal('~');
+      expect(quotePath('/data/$HOME')).to.equal(`'/data/$HOME'`);
+    });
+  });
+
+  describe('expandTemplate', () => {
+    it('prefers passed values, then settings/state defaults, then declared defaults', () => {
+      expect(expandTemplate(serve, { hardware: 'N300' }, { defaults: { ttMetalPath: '/opt/tt metal', port: '' } }))
+        .to.equal(`cd '/opt/tt metal' && python3 serve.py --device n300 --port 8000`);
+      expect(expandTemplate(serve, { hardware: 'n150', port: '9000' }, { defaults: { hardware: 'p150' } }))
+        .to.equal('cd ~/tt-metal && python3 serve.py --device n150 --port 9000');
+    });
+
+    it('reports every missing variable', () => {
+      const source: TemplateSource = {
+        template: 'run {{a}} {{b}}',
+        variables: {
+          a: { type: 'path', description: 'first path' },
+          b: { type: 'secret', description: 'token' },
+        },
+      };
+
+      try {
+        expandTemplate(source);
+        expect.fail('expected a TemplateError');
+      } catch (error) {
+        expect(error).to.be.instanceOf(TemplateError);
+        expect((error as TemplateError).variables).to.deep.equal(['a', 'b']);
+        expect((error as TemplateError).message).to.equal('Missing value for first path (a), token (b)');
+      }
+    });
+
+    it('rejects invalid values and undeclared placeholders', () => {
+      expect(() => expandTemplate(serve, { hardware: 'gpu' })).to.throw(TemplateError, /device type \(hardware\): must be one of/);
+      expect(() => expandTemplate(serve, { hardware: 'n150', port: '70000' })).to.throw(TemplateError, /server port/);
+      expect(() => expandTemplate(serve, { hardware: 'n150', ttMetalPath: 'a\nb' })).to.throw(TemplateError, /single line/);
+      expect(() => expandTemplate({ template: 'echo {{name}}' })).to.throw(TemplateError, /undeclared variables: name/);
+    });
+
+    it('renders model keys as Hugging Face IDs', () => {
+      const source: TemplateSource = {
+        template: 'hf download {{model}}',
+        variables: { model: { type: 'modelKey', description: 'model' } },
+      };
+      expect(expandTemplate(source, { model: 'llama-3.1-8b' })).to.equal('hf download meta-llama/Llama-3.1-8B-Instruct');
+      expect(() => expandTemplate(source, { model: 'toString' })).to.throw(TemplateError, /unknown model/);
+    });
+
+    it('masks secrets and marks missing values in previews', () => {
+      const source: TemplateSource = {
+        template: 'export HF_TOKEN={{token}} && cd {{path}}',
+        variables: {
+          token: { type: 'secret', description: 'token' },
+          path: { type: 'path', description: 'path' },
+        },
+      };
+      expect(expandTemplate(source, { token: 'hf_abc' }, { preview: true })).to.equal(`export HF_TOKEN=${SECRET_MASK} && cd <path>`);
+      expect(expandTemplate(source, { token: `a'b`, path: '/x' })).to.equal(`export HF_TOKEN='a'\\''b' && cd /x`);
+    });
+
+    it('accepts replacement variable types', () => {
+      const upper = { validate: () => undefined, render: (value: string) => value.toUpperCase() };
+      expect(expandTemplate(serve, { hardware: 'n150' }, { types: { hardware: upper } }))
+        .to.equal('cd ~/tt-metal && python3 serve.py --device N150 --port 8000');
+    });
+  });
+
+  describe('TERMINAL_COMMANDS', () => {
+    it('declares every placeholder each template uses', () => {
+      for (const command of Object.values(TERMINAL_COMMANDS)) {
+        const declared = Object.keys(command.variables ?? {});
+        expect(templatePlaceholders(command.template), command.id).to.have.members(declared);
+        expect(() => previewCommand(command), command.id).not.to.throw();
+      }
+    });
+
+    it('uses path variables instead of hard-coded toolchain locations', () => {
+      for (const command of Object.values(TERMINAL_COMMANDS)) {
+        for (const info of Object.values(TOOLCHAIN_PATHS)) {
+          expect(command.template, command.id).not.to.include(info.default);
+        }
+      }
+    });
+
+    it('expands with values from settings/state', () => {
+      const command = expandCommand(TERMINAL_COMMANDS.RUN_INFERENCE, {}, {
+        ttMetalPath: '/opt/tt-metal',
+        modelPath: '/data/my models/original',
+      });
+      expect(command).to.match(/^cd \/opt\/tt-metal && export LLAMA_DIR='\/data\/my models\/original' && /);
+    });
+
+    it('finds the templates a VSCode command runs', () => {
+      expect(getCommandTemplates('tenstorrent.testTtXlaInstall').map(command => command.id))
+        .to.deep.equal(['create-tt-xla-test', 'test-tt-xla-install']);
+      expect(getCommandTemplates('tenstorrent.unknown')).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Environment Profiles Tests
+ *
+ * Verifies how profiles resolve to a terminal's environment and working
+ * directory, how configured profiles combine with the built-in ones, that
+ * each terminal's default profile exists, and when an open terminal can run
+ * a command that needs a profile.
+ */
+
+import { expect } from 'chai';
+import {
+  BUILT_IN_PROFILES,
+  describeProfile,
+  hasProfileEnvironment,
+  isValidVariableName,
+  mergeProfiles,
+  resolveEnvironment,
+} from '../../src/utils/EnvironmentProfiles';
+import { resolveToolchainPaths, toolchainTemplateValues } from '../../src/utils/ToolchainPaths';
+import { DEFAULT_TERMINAL_PROFILES, TERMINAL_COMMANDS } from '../../src/commands/terminalCommands';
+
+const values = toolchainTemplateValues(resolveToolchainPaths({ settings: { vllm: '/opt/tt-vllm' } }));
+
+describe('EnvironmentProfiles', () => {
+  describe('resolveEnvironment', () => {
+    it('substitutes path variables and expands ~', () => {
+      const resolved = resolveEnvironment(BUILT_IN_PROFILES['metal-dev'], {
+        values,
+        exists: () => true,
+        homeDir: '/home/me',
+      });
+      expect(resolved).to.deep.equal({
+        env: { TT_METAL_HOME: '/home/me/tt-metal', PYTHONPATH: '/home/me/tt-metal' },
+        cwd: '/home/me/tt-metal',
+        skipped: [],
+      });
+    });
+
+    it('activates the venv by putting its bin/ first on PATH', () => {
+      const resolved = resolveEnvironment(BUILT_IN_PROFILES['vllm-n300'], {
+        values,
+        exists: () => true,
+        basePath: '/usr/bin:/bin',
+        homeDir: '/home/me',
+      });
+      expect(resolved.env).to.deep.equal({
+        TT_METAL_HOME: '/home/me/tt-metal',
+        PYTHONPATH: '/home/me/tt-metal',
+        MESH_DEVICE: 'N300',
+        VIRTUAL_ENV: '/home/me/tt-vllm-venv',
+        PATH: '/home/me/tt-vllm-venv/bin:/usr/bin:/bin',
+      });
+      expect(resolved.cwd).to.equal('/opt/tt-vllm');
+    });
+
+    it('puts PYTHONPATH in front of the existing one', () => {
+      const resolved = resolveEnvironment(BUILT_IN_PROFILES['metal-dev'], {
+        values,
+        exists: () => true,
+        basePythonPath: '/opt/lib/python',
+        homeDir: '/home/me',
+      });
+      expect(resolved.env.PYTHONPATH).to.equal('/home/me/tt-metal:/opt/lib/python');
+    });
+
+    it('skips a venv or working directory that does not exist', () => {
+      const resolved = resolveEnvironment(BUILT_IN_PROFILES['vllm-n150'], {
+        values,
+        exists: () => false,
+        homeDir: '/home/me',
+      });
+      expect(resolved.env).to.deep.equal({ TT_METAL_HOME: '/home/me/tt-metal', PYTHONPATH: '/home/me/tt-metal', MESH_DEVICE: 'N150' });
+      expect(resolved.cwd).to.equal(undefined);
+      expect(resolved.skipped).to.deep.equal([
+        'venv /home/me/tt-vllm-venv (not found)',
+        'working directory /opt/tt-vllm (not found)',
+      ]);
+    });
+
+    it('skips values with unknown variables', () => {
+      const resolved = resolveEnvironment(
+        { env: { A: '{{nope}}/x', B: 'plain' }, cwd: '{{nope}}' },
+        { values, exists: () => true }
+      );
+      expect(resolved.env).to.deep.equal({ B: 'plain' });
+      expect(resolved.skipped).to.deep.equal([
+        'A (Unknown variable {{nope}})',
+        'working directory (Unknown variable {{nope}})',
+      ]);
+    });
+  });
+
+  describe('open terminals', () => {
+    const server = TERMINAL_COMMANDS.START_VLLM_SERVER_N300;
+    const skippedWith = (exists: boolean) => resolveEnvironment(BUILT_IN_PROFILES[server.profile ?? ''], {
+      values,
+      exists: () => exists,
+      homeDir: '/home/me',
+    }).skipped;
+
+    it('runs a profile command in a terminal created with that profile', () => {
+      expect(hasProfileEnvironment({ profile: server.profile, skipped: [] }, server.profile, skippedWith(true))).to.equal(true);
+    });
+
+    it('replaces a terminal first opened without the profile', () => {
+      // e.g. the vLLM server terminal opened by Install vLLM
+      expect(hasProfileEnvironment({ skipped: [] }, server.profile, skippedWith(true))).to.equal(false);
+      expect(hasProfileEnvironment({ profile: 'vllm-n150', skipped: [] }, server.profile, skippedWith(true))).to.equal(false);
+      expect(hasProfileEnvironment(undefined, server.profile, skippedWith(true))).to.equal(false);
+    });
+
+    it('replaces a terminal created before its venv existed', () => {
+      const created = { profile: server.profile, skipped: skippedWith(false) };
+      expect(hasProfileEnvironment(created, server.profile, skippedWith(true))).to.equal(false);
+      expect(hasProfileEnvironment(created, server.profile, skippedWith(false))).to.equal(true);
+    });
+  });
+
+  describe('profiles', () => {
+    it('adds configured profiles and lets them replace built-ins', () => {
+      const merged = mergeProfiles({ 'metal-dev': { cwd: '/src/tt-metal' }, 'vllm-galaxy': { env: { MESH_DEVICE: 'TG' } } });
+      expect(merged['metal-dev']).to.deep.equal({ cwd: '/src/tt-metal' });
+      expect(merged['vllm-galaxy'].env).to.deep.equal({ MESH_DEVICE: 'TG' });
+      expect(merged).to.have.property('forge-wheel');
+    });
+
+    it('gives every terminal a default profile that exists', () => {
+      for (const [context, profile] of Object.entries(DEFAULT_TERMINAL_PROFILES)) {
+        if (profile) {
+          expect(BUILT_IN_PROFILES, context).to.have.property(profile);
+        }
+      }
+    });
+
+    it('describes profiles in one line', () => {
+      expect(describeProfile(BUILT_IN_PROFILES['vllm-n300']))
+        .to.equal('venv {{vllmVenvPath}} · TT_METAL_HOME={{ttMetalPath}} · PYTHONPATH={{ttMetalPath}} · MESH_DEVICE=N300 · cwd {{vllmPath}}');
+      expect(describeProfile({})).to.equal('No changes to the environment');
+    });
+
+    it('accepts only valid variable names', () => {
+      expect(isValidVariableName('TT_METAL_HOME')).to.equal(true);
+      expect(isValidVariableName('_x1')).to.equal(true);
+      expect(isValidVariableName('1X')).to.equal(false);
+      expect(isValidVariableName('A-B')).to.equal(false);
+      expect(isValidVariableName('')).to.equal(false);
+    });
+  });
+});
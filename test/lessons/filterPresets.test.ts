@@ -0,0 +1,54 @@
+/**
+ * Filter Preset Tests
+ *
+ * Verifies built-in presets stay in sync with the lesson registry and
+ * that user presets get unique IDs.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUILTIN_FILTER_PRESETS, createFilterPreset } from '../../src/config/filterPresets';
+import { LessonRegistry } from '../../src/types';
+
+const registry: LessonRegistry = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../../content/lesson-registry.json'), 'utf8')
+);
+
+describe('Filter Presets', () => {
+  it('has unique built-in preset IDs', () => {
+    const ids = BUILTIN_FILTER_PRESETS.map(preset => preset.id);
+    expect(new Set(ids).size).to.equal(ids.length);
+    expect(BUILTIN_FILTER_PRESETS.every(preset => preset.builtin)).to.be.true;
+  });
+
+  it('only uses tags that exist in the registry', () => {
+    const registryTags = new Set(registry.lessons.flatMap(lesson => lesson.tags));
+
+    for (const preset of BUILTIN_FILTER_PRESETS) {
+      const tags = preset.config.filters.tags ?? [];
+      if (tags.length > 0) {
+        expect(tags.some(tag => registryTags.has(tag)), `${preset.id} matches no lessons`).to.be.true;
+      }
+    }
+  });
+
+  describe('createFilterPreset()', () => {
+    const config = BUILTIN_FILTER_PRESETS[0].config;
+
+    it('derives an ID from the name', () => {
+      const preset = createFilterPreset('My vLLM Lessons!', config, []);
+
+      expect(preset.id).to.equal('user-my-vllm-lessons');
+      expect(preset.name).to.equal('My vLLM Lessons!');
+      expect(preset.builtin).to.be.false;
+    });
+
+    it('avoids clashing with existing presets', () => {
+      const first = createFilterPreset('Serving', config, []);
+      const second = createFilterPreset('serving', config, [first]);
+
+      expect(second.id).to.equal('user-serving-2');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Lesson Test Fixtures
+ *
+ * Lesson metadata shared by the lesson tests.
+ */
+
+import { LessonMetadata } from '../../src/types';
+
+/**
+ * A validated n150 lesson in the first-inference category, with overrides
+ */
+export function lesson(id: string, overrides: Partial<LessonMetadata> = {}): LessonMetadata {
+  return {
+    id,
+    title: id,
+    description: '',
+    category: 'first-inference',
+    order: 1,
+    markdownFile: `content/lessons/${id}.md`,
+    supportedHardware: ['n150'],
+    status: 'validated',
+    validatedOn: ['n150'],
+    completionEvents: [],
+    tags: [],
+    ...overrides,
+  };
+}
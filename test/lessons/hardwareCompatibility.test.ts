@@ -0,0 +1,64 @@
+/**
+ * Hardware Compatibility Tests
+ *
+ * Verifies how lessons are classified, labelled and filtered against
+ * the hardware detected by tt-smi.
+ */
+
+import { expect } from 'chai';
+import {
+  getHardwareCompatibility,
+  describeHardwareCompatibility,
+  filterByDetectedHardware,
+} from '../../src/utils/HardwareCompatibility';
+import { LessonMetadata } from '../../src/types';
+import { lesson } from './fixtures';
+
+const wormhole: Partial<LessonMetadata> = { supportedHardware: ['n150', 'n300'] };
+
+describe('Hardware Compatibility', () => {
+  describe('getHardwareCompatibility()', () => {
+    it('classifies validated, unvalidated and unsupported hardware', () => {
+      const l = lesson('vllm', wormhole);
+
+      expect(getHardwareCompatibility(l, 'n150')).to.equal('validated');
+      expect(getHardwareCompatibility(l, 'n300')).to.equal('unvalidated');
+      expect(getHardwareCompatibility(l, 'p150')).to.equal('unsupported');
+    });
+  });
+
+  describe('describeHardwareCompatibility()', () => {
+    it('explains mismatches using the display name', () => {
+      const l = lesson('vllm', wormhole);
+
+      expect(describeHardwareCompatibility(l, 'n300')).to.equal('not validated on your N300');
+      expect(describeHardwareCompatibility(l, 't3k')).to.equal('not supported on your T3K');
+    });
+
+    it('returns null when validated on the hardware', () => {
+      expect(describeHardwareCompatibility(lesson('vllm', wormhole), 'n150')).to.be.null;
+    });
+  });
+
+  describe('filterByDetectedHardware()', () => {
+    const lessons = [
+      lesson('wormhole-only', wormhole),
+      lesson('blackhole-only', { supportedHardware: ['p100', 'p150'], validatedOn: ['p150'] }),
+    ];
+
+    it('hides unsupported lessons in "mine" mode', () => {
+      const ids = filterByDetectedHardware(lessons, 'p150', 'mine').map(l => l.id);
+      expect(ids).to.deep.equal(['blackhole-only']);
+    });
+
+    it('keeps unvalidated-but-supported lessons', () => {
+      const ids = filterByDetectedHardware(lessons, 'n300', 'mine').map(l => l.id);
+      expect(ids).to.deep.equal(['wormhole-only']);
+    });
+
+    it('shows everything in "all" mode or without detected hardware', () => {
+      expect(filterByDetectedHardware(lessons, 'p150', 'all')).to.have.length(2);
+      expect(filterByDetectedHardware(lessons, undefined, 'mine')).to.have.length(2);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Lesson Graph Tests
+ *
+ * Verifies graph construction from prerequisites and lesson sequence, the
+ * category column layout, and shortest-path search to a target lesson.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildLessonGraph, findShortestPath } from '../../src/utils/LessonGraph';
+import { CategoryDefinition, LessonRegistry } from '../../src/types';
+import { lesson } from './fixtures';
+
+const categories: CategoryDefinition[] = [
+  { id: 'serving', title: 'Serving', description: '', order: 2 },
+  { id: 'first-inference', title: 'First Inference', description: '', order: 1 },
+  { id: 'ecosystem', title: 'Ecosystem', description: '', order: 3 },
+];
+
+describe('LessonGraph', () => {
+  const lessons = [
+    lesson('setup', { order: 1, nextLesson: 'model' }),
+    lesson('model', { order: 2, previousLesson: 'setup', nextLesson: 'chat' }),
+    lesson('chat', { order: 3, previousLesson: 'model' }),
+    lesson('vllm', {
+      category: 'serving',
+      order: 1,
+      prerequisites: [
+        { lessonId: 'model', required: true },
+        { lessonId: 'chat', required: false },
+        { lessonId: 'missing', required: true },
+      ],
+    }),
+    lesson('api', { category: 'serving', order: 2, prerequisites: [{ lessonId: 'vllm', required: true }] }),
+  ];
+  const graph = buildLessonGraph(lessons, categories);
+
+  describe('buildLessonGraph', () => {
+    it('creates one deduplicated sequence edge per previous/next pair', () => {
+      const sequence = graph.edges.filter(e => e.kind === 'sequence');
+      expect(sequence).to.deep.equal([
+        { from: 'setup', to: 'model', kind: 'sequence' },
+        { from: 'model', to: 'chat', kind: 'sequence' },
+      ]);
+    });
+
+    it('creates required and recommended edges from prerequisites', () => {
+      expect(graph.edges).to.deep.include({ from: 'model', to: 'vllm', kind: 'required' });
+      expect(graph.edges).to.deep.include({ from: 'chat', to: 'vllm', kind: 'recommended' });
+    });
+
+    it('drops edges to unknown lessons', () => {
+      expect(graph.edges.some(e => e.from === 'missing')).to.be.false;
+    });
+
+    it('prefers a prerequisite edge over a sequence edge', () => {
+      const g = buildLessonGraph(
+        [lesson('a', { nextLesson: 'b' }), lesson('b', { prerequisites: [{ lessonId: 'a', required: true }] })],
+        categories
+      );
+      expect(g.edges).to.deep.equal([{ from: 'a', to: 'b', kind: 'required' }]);
+    });
+
+    it('lays out non-empty categories as columns in display order', () => {
+      expect(graph.columns.map(c => c.id)).to.deep.equal(['first-inference', 'serving']);
+    });
+
+    it('orders rows within a column by lesson order', () => {
+      const positions = Object.fromEntries(graph.nodes.map(n => [n.id, [n.column, n.row]]));
+      expect(positions).to.deep.equal({
+        setup: [0, 0],
+        model: [0, 1],
+        chat: [0, 2],
+        vllm: [1, 0],
+        api: [1, 1],
+      });
+    });
+  });
+
+  describe('findShortestPath', () => {
+    it('starts from a root lesson when nothing is completed', () => {
+      expect(findShortestPath(graph, new Set(), 'api')).to.deep.equal(['setup', 'model', 'vllm', 'api']);
+    });
+
+    it('starts from the nearest completed lesson', () => {
+      expect(findShortestPath(graph, new Set(['setup', 'model']), 'api')).to.deep.equal(['model', 'vllm', 'api']);
+    });
+
+    it('returns just the target when it is already completed', () => {
+      expect(findShortestPath(graph, new Set(['vllm']), 'vllm')).to.deep.equal(['vllm']);
+    });
+
+    it('falls back to roots when completed lessons cannot reach the target', () => {
+      expect(findShortestPath(graph, new Set(['api']), 'chat')).to.deep.equal(['setup', 'model', 'chat']);
+    });
+
+    it('returns an empty path for unknown lessons', () => {
+      expect(findShortestPath(graph, new Set(), 'nope')).to.deep.equal([]);
+    });
+  });
+
+  describe('lesson registry', () => {
+    const registry: LessonRegistry = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '../../content/lesson-registry.json'), 'utf8')
+    );
+    const realGraph = buildLessonGraph(registry.lessons, registry.categories);
+
+    it('places every lesson in the graph', () => {
+      expect(realGraph.nodes).to.have.lengthOf(registry.lessons.length);
+    });
+
+    it('finds a path to every lesson with prerequisites', () => {
+      for (const l of registry.lessons.filter(l => l.prerequisites?.length)) {
+        const found = findShortestPath(realGraph, new Set(), l.id);
+        expect(found, l.id).to.not.be.empty;
+        expect(found[found.length - 1]).to.equal(l.id);
+      }
+    });
+  });
+});
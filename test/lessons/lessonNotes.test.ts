@@ -0,0 +1,74 @@
+/**
+ * Lesson Notes Tests
+ *
+ * Verifies the "Export All Notes" markdown: lesson order, section notes
+ * and notes for lessons no longer in the registry.
+ */
+
+import { expect } from 'chai';
+import { formatNotesExport, hasNotes } from '../../src/utils/LessonNotes';
+import { ProgressState } from '../../src/types';
+import { lesson } from './fixtures';
+
+function progress(lessonId: string, overrides: Partial<ProgressState> = {}): ProgressState {
+  return {
+    lessonId,
+    status: 'in-progress',
+    completedCommands: [],
+    lastAccessed: 0,
+    timeSpentSeconds: 0,
+    viewCount: 1,
+    ...overrides,
+  };
+}
+
+describe('LessonNotes', () => {
+  const exportedAt = new Date('2026-01-15T10:00:00Z');
+  const lessons = [lesson('hardware-detection', { title: 'Hardware Detection' }), lesson('verify-installation', { title: 'Verify Installation' })];
+
+  describe('hasNotes', () => {
+    it('ignores blank lesson notes', () => {
+      expect(hasNotes(progress('a'))).to.equal(false);
+      expect(hasNotes(progress('a', { notes: '  \n' }))).to.equal(false);
+      expect(hasNotes(progress('a', { notes: 'Board is an N300' }))).to.equal(true);
+    });
+
+    it('counts section notes', () => {
+      const sectionNotes = { 'step-1': { heading: 'Step 1', text: 'ok', updatedAt: 0 } };
+      expect(hasNotes(progress('a', { sectionNotes }))).to.equal(true);
+    });
+  });
+
+  describe('formatNotesExport', () => {
+    it('lists lessons with notes in registry order', () => {
+      const markdown = formatNotesExport(lessons, {
+        'verify-installation': progress('verify-installation', { notes: 'Needed a reboot' }),
+        'hardware-detection': progress('hardware-detection', {
+          notes: 'Two chips found',
+          sectionNotes: {
+            'reading-the-output': { heading: 'Reading the Output', text: 'Fan speed is 40%\n', updatedAt: 0 },
+          },
+        }),
+      }, exportedAt);
+
+      expect(markdown.startsWith('# Tenstorrent Lesson Notes\n\n_Exported 2026-01-15T10:00:00.000Z_\n')).to.equal(true);
+      expect(markdown.indexOf('## Hardware Detection')).to.be.lessThan(markdown.indexOf('## Verify Installation'));
+      expect(markdown).to.include('Two chips found');
+      expect(markdown).to.include('### 📌 Reading the Output\n\n_Section: `#reading-the-output`_\n\nFan speed is 40%\n');
+    });
+
+    it('skips lessons without notes and keeps notes of removed lessons', () => {
+      const markdown = formatNotesExport(lessons, {
+        'hardware-detection': progress('hardware-detection'),
+        'old-lesson': progress('old-lesson', { notes: 'Still useful' }),
+      }, exportedAt);
+
+      expect(markdown).to.not.include('## Hardware Detection');
+      expect(markdown).to.include('## old-lesson\n\n_Lesson: `old-lesson`_\n\nStill useful');
+    });
+
+    it('says so when there are no notes', () => {
+      expect(formatNotesExport(lessons, {}, exportedAt)).to.include('No notes yet.');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Lesson Pack Tests
+ *
+ * Verifies lesson pack path resolution, naming, and merging packs into the
+ * built-in registry (categories, sources and ID collisions).
+ */
+
+import { expect } from 'chai';
+import * as path from 'path';
+import {
+  defaultPackName,
+  LessonPack,
+  mergeLessonPacks,
+  resolvePackRegistryPath,
+} from '../../src/utils/LessonPacks';
+import { validateRegistry } from '../../src/utils/RegistryValidator';
+import { LessonRegistry } from '../../src/types';
+import { lesson } from './fixtures';
+
+const base: LessonRegistry = {
+  version: '1.0.0',
+  categories: [
+    { id: 'first-inference', title: 'First Inference', description: '', order: 1 },
+    { id: 'serving', title: 'Serving', description: '', order: 2 },
+  ],
+  lessons: [lesson('setup'), lesson('vllm', { category: 'serving' })],
+};
+
+function pack(name: string, registry: Partial<LessonRegistry>): LessonPack {
+  return {
+    name,
+    registryPath: path.join('/packs', name, 'registry.json'),
+    registry: { version: '1.0.0', categories: [], lessons: [], ...registry },
+  };
+}
+
+describe('LessonPacks', () => {
+  describe('resolvePackRegistryPath', () => {
+    it('appends registry.json to folders', () => {
+      expect(resolvePackRegistryPath('/team/lessons')).to.equal(path.join('/team/lessons', 'registry.json'));
+    });
+
+    it('keeps explicit JSON files', () => {
+      expect(resolvePackRegistryPath('/team/lessons/internal.json')).to.equal('/team/lessons/internal.json');
+    });
+
+    it('expands ~ and resolves relative paths against the base folder', () => {
+      expect(resolvePackRegistryPath('~/lessons', undefined, '/home/dev')).to.equal(path.join('/home/dev/lessons', 'registry.json'));
+      expect(resolvePackRegistryPath('docs/lessons', '/work/repo')).to.equal(path.join('/work/repo/docs/lessons', 'registry.json'));
+    });
+  });
+
+  describe('defaultPackName', () => {
+    it('uses the workspace folder name for workspace packs', () => {
+      expect(defaultPackName('/work/model-zoo/.tenstorrent/lessons/registry.json')).to.equal('model-zoo');
+    });
+
+    it('uses the containing folder otherwise', () => {
+      expect(defaultPackName('/team/internal-lessons/registry.json')).to.equal('internal-lessons');
+    });
+  });
+
+  describe('mergeLessonPacks', () => {
+    const { registry, collisions } = mergeLessonPacks(base, [
+      pack('internal', {
+        categories: [
+          { id: 'our-models', title: 'Our Models', description: '', order: 1 },
+          { id: 'serving', title: 'Ignored duplicate', description: '', order: 2 },
+        ],
+        lessons: [
+          lesson('bringup', { category: 'our-models', markdownFile: 'bringup.md' }),
+          lesson('internal-serving', { category: 'serving', markdownFile: 'docs/serving.md' }),
+          lesson('setup', { category: 'our-models', markdownFile: 'setup.md' }),
+        ],
+      }),
+      pack('other', {
+        lessons: [lesson('bringup', { markdownFile: 'bringup.md' })],
+      }),
+    ]);
+
+    it('appends pack categories after the built-in ones', () => {
+      expect(registry.categories.map(c => [c.id, c.title, c.order])).to.deep.equal([
+        ['first-inference', 'First Inference', 1],
+        ['serving', 'Serving', 2],
+        ['our-models', 'Our Models', 3],
+      ]);
+    });
+
+    it('tags pack lessons with their source and resolves markdown paths', () => {
+      const bringup = registry.lessons.find(l => l.id === 'bringup')!;
+      expect(bringup.source).to.equal('internal');
+      expect(bringup.markdownFile).to.equal(path.resolve('/packs/internal', 'bringup.md'));
+      expect(registry.lessons.find(l => l.id === 'internal-serving')!.category).to.equal('serving');
+      expect(registry.lessons.find(l => l.id === 'setup')!.source).to.be.undefined;
+    });
+
+    it('skips and reports lessons whose ID is already taken', () => {
+      expect(registry.lessons.map(l => l.id)).to.deep.equal(['setup', 'vllm', 'bringup', 'internal-serving']);
+      expect(collisions).to.deep.equal([
+        { lessonId: 'setup', pack: 'internal', registryPath: path.join('/packs/internal/registry.json'), index: 2, existingSource: undefined },
+        { lessonId: 'bringup', pack: 'other', registryPath: path.join('/packs/other/registry.json'), index: 0, existingSource: 'internal' },
+      ]);
+    });
+
+    it('does not modify the built-in registry', () => {
+      expect(base.lessons).to.have.lengthOf(2);
+      expect(base.categories).to.have.lengthOf(2);
+    });
+  });
+
+  describe('validating a pack', () => {
+    const data = {
+      version: '1.0.0',
+      name: 'internal',
+      categories: [{ id: 'our-models', title: 'Our Models', description: '', order: 1 }],
+      lessons: [
+        lesson('bringup', { category: 'our-models', prerequisites: [{ lessonId: 'setup', required: true }] }),
+        lesson('tuning', { category: 'serving', previousLesson: 'vllm' }),
+      ],
+    };
+
+    it('accepts custom categories and references to built-in lessons', () => {
+      const { diagnostics } = validateRegistry(data, {
+        allowCustomCategories: true,
+        externalLessonIds: new Set(['setup', 'vllm']),
+        externalCategoryIds: new Set(['serving']),
+      });
+      expect(diagnostics).to.deep.equal([]);
+    });
+
+    it('still reports them without those options', () => {
+      expect(validateRegistry(data).diagnostics.map(d => d.code)).to.deep.equal([
+        'unknown-category',
+        'unknown-category',
+        'dangling-reference',
+        'dangling-reference',
+      ]);
+    });
+  });
+});
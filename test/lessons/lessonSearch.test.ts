@@ -0,0 +1,151 @@
+/**
+ * Lesson Search Tests
+ *
+ * Verifies tokenizing, fuzzy matching, field weighting and heading anchors
+ * for the lesson search index, plus a smoke test over the real content.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LessonSearchIndex,
+  HeadingSlugger,
+  splitSections,
+  tokenize,
+} from '../../src/utils/LessonSearch';
+import { LessonRegistry } from '../../src/types';
+import { lesson } from './fixtures';
+
+const VLLM_MARKDOWN = `---
+id: vllm
+---
+
+# vLLM Production
+
+Serve models with an OpenAI-compatible API.
+
+## Start the Server
+
+\`\`\`bash
+# Not a heading
+python -m vllm.entrypoints.openai.api_server --max-num-seqs 32
+\`\`\`
+
+## Troubleshooting
+
+If the server runs out of memory, lower the batch size.
+`;
+
+describe('Lesson Search', () => {
+  describe('tokenize()', () => {
+    it('lowercases, splits and drops stop words', () => {
+      expect(tokenize('Run the tt-smi Tool on N300')).to.deep.equal(['run', 'tt', 'smi', 'tool', 'n300']);
+    });
+
+    it('keeps dotted versions and module paths together', () => {
+      expect(tokenize('tt-metal v0.51.0 vllm.entrypoints')).to.include.members(['v0.51.0', 'vllm.entrypoints']);
+    });
+  });
+
+  describe('HeadingSlugger', () => {
+    it('creates GitHub-style anchors and de-duplicates', () => {
+      const slugger = new HeadingSlugger();
+
+      expect(slugger.slug('Before You Begin: Is Your System Set Up?')).to.equal('before-you-begin-is-your-system-set-up');
+      expect(slugger.slug('Run `tt-smi` **now**')).to.equal('run-tt-smi-now');
+      expect(slugger.slug('Setup')).to.equal('setup');
+      expect(slugger.slug('Setup')).to.equal('setup-1');
+    });
+  });
+
+  describe('splitSections()', () => {
+    it('splits at headings, skipping frontmatter and code fences', () => {
+      const sections = splitSections(VLLM_MARKDOWN);
+
+      expect(sections.map(section => section.anchor)).to.deep.equal([
+        'vllm-production',
+        'start-the-server',
+        'troubleshooting',
+      ]);
+      expect(sections[1].text).to.include('# Not a heading');
+    });
+  });
+
+  describe('LessonSearchIndex', () => {
+    const lessons = [
+      lesson('vllm-production', { title: 'vLLM Production', tags: ['vllm', 'production'], order: 2 }),
+      lesson('api-server', {
+        title: 'API Server',
+        description: 'Wrap the model in a Flask server',
+        tags: ['api', 'flask'],
+        order: 1,
+      }),
+      lesson('hardware-detection', { title: 'Hardware Detection', tags: ['hardware'], order: 0 }),
+    ];
+    const markdown: Record<string, string> = { 'vllm-production': VLLM_MARKDOWN };
+    const index = new LessonSearchIndex(lessons, l => markdown[l.id]);
+
+    it('ranks title matches above body matches', () => {
+      const results = index.search('server');
+
+      expect(results[0].lessonId).to.equal('api-server');
+      expect(results.map(r => r.lessonId)).to.include('vllm-production');
+    });
+
+    it('tolerates typos', () => {
+      expect(index.search('harware')[0].lessonId).to.equal('hardware-detection');
+    });
+
+    it('matches prefixes', () => {
+      expect(index.search('detect')[0].lessonId).to.equal('hardware-detection');
+    });
+
+    it('points body matches at the nearest heading with a snippet', () => {
+      const [result] = index.search('memory batch');
+
+      expect(result.lessonId).to.equal('vllm-production');
+      expect(result.anchor).to.equal('troubleshooting');
+      expect(result.heading).to.equal('Troubleshooting');
+      expect(result.matchedFields).to.deep.equal(['body']);
+      expect(result.highlights![0]).to.include('out of memory');
+    });
+
+    it('reports relevance between 0 and 1', () => {
+      for (const result of index.search('vllm production server')) {
+        expect(result.relevance).to.be.within(0, 1);
+      }
+    });
+
+    it('returns nothing for empty queries', () => {
+      expect(index.search('')).to.be.empty;
+      expect(index.search('   ')).to.be.empty;
+    });
+
+    it('falls back to substring matching for stop-word-only queries', () => {
+      const results = index.search('a');
+      expect(results.map(r => r.lessonId)).to.deep.equal(['hardware-detection', 'api-server']);
+      expect(results[0].matchedFields).to.include('title');
+      expect(index.search('the and of')).to.be.empty;
+    });
+  });
+
+  describe('real lesson content', () => {
+    const root = path.join(__dirname, '../..');
+    const registry: LessonRegistry = JSON.parse(
+      fs.readFileSync(path.join(root, 'content/lesson-registry.json'), 'utf8')
+    );
+    const index = new LessonSearchIndex(registry.lessons, l =>
+      fs.readFileSync(path.join(root, l.markdownFile), 'utf8')
+    );
+
+    it('finds the vLLM lesson first for "vllm"', () => {
+      expect(index.search('vllm')[0].lessonId).to.equal('vllm-production');
+    });
+
+    it('finds tt-smi content in the hardware detection lesson', () => {
+      const ids = index.search('tt-smi').map(result => result.lessonId);
+      expect(ids).to.include('hardware-detection');
+    });
+  });
+});
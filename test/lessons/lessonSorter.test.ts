@@ -0,0 +1,67 @@
+/**
+ * Lesson Sorter Tests
+ *
+ * Verifies each SortOption mode with an in-memory progress lookup.
+ */
+
+import { expect } from 'chai';
+import { sortLessons } from '../../src/utils/LessonSorter';
+import { LessonMetadata, ProgressState, ProgressStatus } from '../../src/types';
+import { lesson } from './fixtures';
+
+function progressLookup(entries: Record<string, { status: ProgressStatus; lastAccessed: number }>) {
+  return (lessonId: string): ProgressState => ({
+    lessonId,
+    status: entries[lessonId]?.status ?? 'not-started',
+    completedCommands: [],
+    lastAccessed: entries[lessonId]?.lastAccessed ?? 0,
+    timeSpentSeconds: 0,
+    viewCount: 0,
+  });
+}
+
+const lessons = [
+  lesson('setup', { order: 1, title: 'Setup', estimatedMinutes: 15 }),
+  lesson('api-server', { order: 2, title: 'API Server', estimatedMinutes: 30 }),
+  lesson('chat', { order: 3, title: 'chat', estimatedMinutes: 5 }),
+  lesson('vllm', { order: 4, title: 'vLLM' }),
+];
+
+const progress = progressLookup({
+  'setup': { status: 'completed', lastAccessed: 100 },
+  'chat': { status: 'in-progress', lastAccessed: 300 },
+  'vllm': { status: 'in-progress', lastAccessed: 200 },
+});
+
+const ids = (sorted: LessonMetadata[]) => sorted.map(l => l.id);
+
+describe('sortLessons()', () => {
+  it('keeps registry order by default', () => {
+    const shuffled = [lessons[2], lessons[0], lessons[3], lessons[1]];
+    expect(ids(sortLessons(shuffled, 'order', 'asc', progress))).to.deep.equal(['setup', 'api-server', 'chat', 'vllm']);
+  });
+
+  it('sorts alphabetically ignoring case', () => {
+    expect(ids(sortLessons(lessons, 'alphabetical', 'asc', progress))).to.deep.equal(['api-server', 'chat', 'setup', 'vllm']);
+    expect(ids(sortLessons(lessons, 'alphabetical', 'desc', progress))).to.deep.equal(['vllm', 'setup', 'chat', 'api-server']);
+  });
+
+  it('sorts by most recent access with never-opened lessons last', () => {
+    expect(ids(sortLessons(lessons, 'recent', 'desc', progress))).to.deep.equal(['chat', 'vllm', 'setup', 'api-server']);
+  });
+
+  it('sorts by progress status, then registry order', () => {
+    expect(ids(sortLessons(lessons, 'progress', 'asc', progress))).to.deep.equal(['chat', 'vllm', 'api-server', 'setup']);
+  });
+
+  it('sorts by duration with unestimated lessons last in either direction', () => {
+    expect(ids(sortLessons(lessons, 'duration', 'asc', progress))).to.deep.equal(['chat', 'setup', 'api-server', 'vllm']);
+    expect(ids(sortLessons(lessons, 'duration', 'desc', progress))).to.deep.equal(['api-server', 'setup', 'chat', 'vllm']);
+  });
+
+  it('does not modify the input array', () => {
+    const input = [...lessons];
+    sortLessons(input, 'alphabetical', 'desc', progress);
+    expect(ids(input)).to.deep.equal(ids(lessons));
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Lesson Step Tests
+ *
+ * Verifies step keys for command buttons and runnable blocks, and how
+ * recorded progress maps to done/failed/pending steps.
+ */
+
+import { expect } from 'chai';
+import { codeBlockStepKey, commandStepKey, getStepStates } from '../../src/utils/LessonSteps';
+import { ProgressState } from '../../src/types';
+
+function progress(overrides: Partial<ProgressState> = {}): ProgressState {
+  return {
+    lessonId: 'hardware-detection',
+    status: 'in-progress',
+    completedCommands: [],
+    lastAccessed: 0,
+    timeSpentSeconds: 0,
+    viewCount: 1,
+    ...overrides,
+  };
+}
+
+describe('LessonSteps', () => {
+  describe('step keys', () => {
+    it('keys command buttons by command ID', () => {
+      expect(commandStepKey('tenstorrent.runHardwareDetection')).to.equal('command:tenstorrent.runHardwareDetection');
+    });
+
+    it('keys code blocks by their code, ignoring surrounding whitespace', () => {
+      const key = codeBlockStepKey('tt-smi -s\n');
+      expect(key).to.match(/^block:[0-9a-f]{8}$/);
+      expect(codeBlockStepKey('  tt-smi -s')).to.equal(key);
+      expect(codeBlockStepKey('tt-smi -ls')).to.not.equal(key);
+    });
+  });
+
+  describe('getStepStates', () => {
+    it('has no states for untouched lessons', () => {
+      expect(getStepStates(progress())).to.deep.equal({});
+    });
+
+    it('treats recorded commands as done steps', () => {
+      expect(getStepStates(progress({ completedCommands: ['tenstorrent.runHardwareDetection'] }))).to.deep.equal({
+        'command:tenstorrent.runHardwareDetection': 'done',
+      });
+    });
+
+    it('reports failed steps over earlier successes', () => {
+      const states = getStepStates(progress({
+        completedCommands: ['tenstorrent.verifyInstallation'],
+        completedSteps: ['block:00000001'],
+        failedSteps: ['command:tenstorrent.verifyInstallation', 'block:00000002'],
+      }));
+
+      expect(states).to.deep.equal({
+        'command:tenstorrent.verifyInstallation': 'failed',
+        'block:00000001': 'done',
+        'block:00000002': 'failed',
+      });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Prerequisite Tests
+ *
+ * Verifies required/recommended prerequisite resolution and that the
+ * registry's prerequisite references are valid.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPrerequisiteStatus } from '../../src/utils/Prerequisites';
+import { LessonMetadata, LessonRegistry } from '../../src/types';
+import { lesson } from './fixtures';
+
+describe('Prerequisites', () => {
+  const lessons = new Map<string, LessonMetadata>([
+    ['setup', lesson('setup')],
+    ['model', lesson('model')],
+    ['chat', lesson('chat')],
+  ]);
+  const target = lesson('vllm', {
+    prerequisites: [
+      { lessonId: 'setup', required: true },
+      { lessonId: 'model', required: true, description: 'Needs weights' },
+      { lessonId: 'chat', required: false },
+      { lessonId: 'removed-lesson', required: true },
+    ],
+  });
+  const lookup = (id: string) => lessons.get(id);
+
+  it('splits outstanding prerequisites into missing and recommended', () => {
+    const status = getPrerequisiteStatus(target, new Set(['setup']), lookup);
+
+    expect(status.missing.map(p => p.lesson.id)).to.deep.equal(['model']);
+    expect(status.missing[0].info.description).to.equal('Needs weights');
+    expect(status.recommended.map(p => p.lesson.id)).to.deep.equal(['chat']);
+  });
+
+  it('ignores prerequisites that reference unknown lessons', () => {
+    const status = getPrerequisiteStatus(target, new Set(['setup', 'model', 'chat']), lookup);
+
+    expect(status.missing).to.be.empty;
+    expect(status.recommended).to.be.empty;
+  });
+
+  it('treats lessons without prerequisites as unlocked', () => {
+    expect(getPrerequisiteStatus(lesson('setup'), new Set(), lookup).missing).to.be.empty;
+  });
+
+  describe('lesson registry', () => {
+    const registry: LessonRegistry = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '../../content/lesson-registry.json'), 'utf8')
+    );
+    const ids = new Set(registry.lessons.map(l => l.id));
+
+    it('only references lessons that exist', () => {
+      for (const l of registry.lessons) {
+        for (const prereq of l.prerequisites ?? []) {
+          expect(ids.has(prereq.lessonId), `${l.id} → ${prereq.lessonId}`).to.be.true;
+          expect(prereq.lessonId, `${l.id} requires itself`).to.not.equal(l.id);
+        }
+      }
+    });
+  });
+});
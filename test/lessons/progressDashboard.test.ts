@@ -0,0 +1,126 @@
+/**
+ * Progress Dashboard Tests
+ *
+ * Verifies per-category completion, time spent per lesson, the activity
+ * calendar and streaks, and the "Continue" list.
+ */
+
+import { expect } from 'chai';
+import { ACTIVITY_WEEKS, buildProgressDashboard, toDateKey } from '../../src/utils/ProgressDashboard';
+import { CategoryDefinition, ProgressState } from '../../src/types';
+import { lesson } from './fixtures';
+
+function progress(lessonId: string, overrides: Partial<ProgressState> = {}): ProgressState {
+  return {
+    lessonId,
+    status: 'in-progress',
+    completedCommands: [],
+    lastAccessed: 0,
+    timeSpentSeconds: 0,
+    viewCount: 1,
+    ...overrides,
+  };
+}
+
+/** Noon, local time, `daysAgo` days before "now" */
+const now = new Date(2026, 2, 20, 15, 0);
+function daysAgo(days: number): number {
+  return new Date(2026, 2, 20 - days, 12, 0).getTime();
+}
+
+const categories: CategoryDefinition[] = [
+  { id: 'serving', title: 'Serving', description: '', order: 2 },
+  { id: 'first-inference', title: 'First Inference', description: '', order: 1 },
+  { id: 'empty', title: 'Empty', description: '', order: 3 },
+];
+
+const lessons = [
+  lesson('a', { category: 'first-inference' }),
+  lesson('b', { category: 'first-inference' }),
+  lesson('c', { category: 'serving' }),
+];
+
+describe('ProgressDashboard', () => {
+  it('summarizes completion per category in category order', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { status: 'completed' }),
+      b: progress('b'),
+    }, now);
+
+    expect(dashboard.categories).to.deep.equal([
+      { id: 'first-inference', title: 'First Inference', total: 2, completed: 1, inProgress: 1 },
+      { id: 'serving', title: 'Serving', total: 1, completed: 0, inProgress: 0 },
+    ]);
+  });
+
+  it('lists lessons with time spent, most time first', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { timeSpentSeconds: 60 }),
+      b: progress('b', { timeSpentSeconds: 0 }),
+      c: progress('c', { status: 'completed', timeSpentSeconds: 600 }),
+    }, now);
+
+    expect(dashboard.lessonTimes.map(entry => [entry.id, entry.status, entry.timeSpentSeconds])).to.deep.equal([
+      ['c', 'completed', 600],
+      ['a', 'in-progress', 60],
+    ]);
+  });
+
+  it('builds an activity calendar ending today from first and last access', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { firstAccessed: daysAgo(3), lastAccessed: daysAgo(0) }),
+      b: progress('b', { firstAccessed: daysAgo(0), lastAccessed: daysAgo(0) }),
+    }, now);
+
+    expect(dashboard.activity).to.have.lengthOf(ACTIVITY_WEEKS * 7);
+    expect(dashboard.activity[dashboard.activity.length - 1]).to.deep.equal({ date: toDateKey(now), count: 2 });
+
+    const threeDaysAgo = dashboard.activity.find(day => day.date === toDateKey(new Date(daysAgo(3))));
+    expect(threeDaysAgo?.count).to.equal(1);
+  });
+
+  it('counts days in between from the progress history', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { firstAccessed: daysAgo(4), lastAccessed: daysAgo(0) }),
+    }, now, [
+      { type: 'opened', lessonId: 'a', at: daysAgo(4) },
+      { type: 'command-run', lessonId: 'a', at: daysAgo(3), commandId: 'x' },
+      { type: 'session', lessonId: 'a', at: daysAgo(2), seconds: 60 },
+      { type: 'opened', lessonId: 'reset-lesson', at: daysAgo(1) },
+      { type: 'opened', lessonId: 'a', at: daysAgo(0) },
+    ]);
+
+    expect(dashboard.currentStreak).to.equal(1);
+    expect(dashboard.longestStreak).to.equal(3);
+  });
+
+  it('counts the current streak from yesterday until today has activity', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { firstAccessed: daysAgo(2), lastAccessed: daysAgo(1) }),
+      b: progress('b', { firstAccessed: daysAgo(9), lastAccessed: daysAgo(8) }),
+      c: progress('c', { firstAccessed: daysAgo(7), lastAccessed: daysAgo(7) }),
+    }, now);
+
+    expect(dashboard.currentStreak).to.equal(2);
+    expect(dashboard.longestStreak).to.equal(3);
+  });
+
+  it('has no streak after a missed day', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { firstAccessed: daysAgo(3), lastAccessed: daysAgo(2) }),
+    }, now);
+
+    expect(dashboard.currentStreak).to.equal(0);
+    expect(dashboard.longestStreak).to.equal(2);
+  });
+
+  it('offers in-progress lessons to continue, most recent first', () => {
+    const dashboard = buildProgressDashboard(categories, lessons, {
+      a: progress('a', { lastAccessed: daysAgo(5) }),
+      b: progress('b', { status: 'completed', lastAccessed: daysAgo(0) }),
+      c: progress('c', { lastAccessed: daysAgo(1) }),
+    }, now);
+
+    expect(dashboard.continueLessons.map(entry => entry.id)).to.deep.equal(['c', 'a']);
+  });
+});
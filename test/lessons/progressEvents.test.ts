@@ -0,0 +1,187 @@
+/**
+ * Progress Events Tests
+ *
+ * Verifies that replaying the progress event log derives lesson state and
+ * consistent totals, and how events are appended (note coalescing and
+ * compaction).
+ */
+
+import { expect } from 'chai';
+import {
+  appendProgressEvent,
+  importProgressEvents,
+  MAX_PROGRESS_EVENTS,
+  progressHistory,
+  replayProgress,
+} from '../../src/utils/ProgressEvents';
+import { GlobalProgressState, ProgressEvent } from '../../src/types';
+
+function progressEventsOf(progress: GlobalProgressState): ProgressEvent[] {
+  return [{ type: 'snapshot', at: progress.lastSync, progress }];
+}
+
+function stored(lessons: GlobalProgressState['lessons']): GlobalProgressState {
+  // Counters as drifted by the old increment/decrement bookkeeping
+  return { lessons, lastSync: 0, totalCompleted: 5, totalInProgress: -1, totalTimeSpent: 0 };
+}
+
+describe('ProgressEvents', () => {
+  describe('replayProgress', () => {
+    it('derives lesson state from opens, sessions and commands', () => {
+      const state = replayProgress([
+        { type: 'opened', lessonId: 'a', at: 100 },
+        { type: 'command-run', lessonId: 'a', at: 150, commandId: 'one' },
+        { type: 'command-run', lessonId: 'a', at: 160, commandId: 'one' },
+        { type: 'session', lessonId: 'a', at: 200, seconds: 90 },
+        { type: 'opened', lessonId: 'a', at: 300 },
+      ]);
+
+      expect(state.lessons.a).to.deep.equal({
+        lessonId: 'a',
+        status: 'in-progress',
+        completedCommands: ['one'],
+        firstAccessed: 100,
+        lastAccessed: 300,
+        timeSpentSeconds: 90,
+        viewCount: 2,
+      });
+      expect(state).to.include({ lastSync: 300, totalCompleted: 0, totalInProgress: 1, totalTimeSpent: 90 });
+    });
+
+    it('keeps totals consistent through completion and resets', () => {
+      const events: ProgressEvent[] = [
+        { type: 'opened', lessonId: 'a', at: 1 },
+        { type: 'opened', lessonId: 'b', at: 2 },
+        { type: 'command-run', lessonId: 'a', at: 3, commandId: 'one' },
+        { type: 'completed', lessonId: 'a', at: 3 },
+        { type: 'completed', lessonId: 'a', at: 4 },
+        { type: 'session', lessonId: 'b', at: 5, seconds: 30 },
+      ];
+
+      expect(replayProgress(events)).to.include({ totalCompleted: 1, totalInProgress: 1, totalTimeSpent: 30 });
+      expect(replayProgress([...events, { type: 'reset', lessonId: 'a', at: 6 }]))
+        .to.include({ totalCompleted: 0, totalInProgress: 1, totalTimeSpent: 30 });
+      expect(replayProgress([...events, { type: 'reset', at: 6 }]).lessons).to.deep.equal({});
+    });
+
+    it('tracks the latest result of each step', () => {
+      const state = replayProgress([
+        { type: 'step-result', lessonId: 'a', at: 1, stepKey: 's1', passed: false },
+        { type: 'step-result', lessonId: 'a', at: 2, stepKey: 's2', passed: false },
+        { type: 'step-result', lessonId: 'a', at: 3, stepKey: 's1', passed: true },
+      ]);
+
+      expect(state.lessons.a.completedSteps).to.deep.equal(['s1']);
+      expect(state.lessons.a.failedSteps).to.deep.equal(['s2']);
+    });
+
+    it('saves and removes lesson and section notes', () => {
+      const section = { anchor: 'setup', heading: 'Setup' };
+      const state = replayProgress([
+        { type: 'note', lessonId: 'a', at: 1, text: 'lesson note' },
+        { type: 'note', lessonId: 'a', at: 2, text: 'pinned', section },
+        { type: 'note', lessonId: 'a', at: 3, text: 'other', section: { anchor: 'run', heading: 'Run' } },
+        { type: 'note', lessonId: 'a', at: 4, text: '  ', section: { anchor: 'run', heading: 'Run' } },
+      ]);
+
+      expect(state.lessons.a.notes).to.equal('lesson note');
+      expect(state.lessons.a.sectionNotes).to.deep.equal({ setup: { heading: 'Setup', text: 'pinned', updatedAt: 2 } });
+    });
+
+    it('recomputes totals of snapshots and imports', () => {
+      const snapshot = stored({ a: { lessonId: 'a', status: 'completed', completedCommands: [], lastAccessed: 1, timeSpentSeconds: 60, viewCount: 1 } });
+      const incoming = stored({ b: { lessonId: 'b', status: 'completed', completedCommands: ['x'], lastAccessed: 2, timeSpentSeconds: 30, viewCount: 1 } });
+
+      const merged = replayProgress([
+        { type: 'snapshot', at: 1, progress: snapshot },
+        { type: 'imported', at: 2, lessons: incoming.lessons },
+      ]);
+      expect(Object.keys(merged.lessons)).to.deep.equal(['a', 'b']);
+      expect(merged).to.include({ totalCompleted: 2, totalInProgress: 0, totalTimeSpent: 90 });
+
+      const replaced = replayProgress([
+        { type: 'snapshot', at: 1, progress: snapshot },
+        { type: 'imported', at: 2, lessons: incoming.lessons, removed: ['a'] },
+      ]);
+      expect(Object.keys(replaced.lessons)).to.deep.equal(['b']);
+    });
+
+    it('does not modify the events it replays', () => {
+      const snapshot = stored({ a: { lessonId: 'a', status: 'in-progress', completedCommands: [], lastAccessed: 1, timeSpentSeconds: 0, viewCount: 1 } });
+      replayProgress([
+        { type: 'snapshot', at: 1, progress: snapshot },
+        { type: 'command-run', lessonId: 'a', at: 2, commandId: 'one' },
+      ]);
+
+      expect(snapshot.lessons.a.completedCommands).to.deep.equal([]);
+    });
+  });
+
+  describe('importProgressEvents', () => {
+    const local = replayProgress([
+      { type: 'opened', lessonId: 'a', at: 100 },
+      { type: 'command-run', lessonId: 'a', at: 110, commandId: 'one' },
+      { type: 'opened', lessonId: 'b', at: 120 },
+    ]);
+
+    it('stores only the lessons a merge changes', () => {
+      const incoming = stored({
+        a: { ...local.lessons.a, completedCommands: ['one', 'two'] },
+        b: local.lessons.b,
+      });
+
+      const events = importProgressEvents(local, incoming, 'merge', 200);
+      expect(events).to.have.lengthOf(1);
+      expect(Object.keys((events[0] as { lessons: object }).lessons)).to.deep.equal(['a']);
+      expect(replayProgress([...progressEventsOf(local), ...events]).lessons.a.completedCommands)
+        .to.deep.equal(['one', 'two']);
+    });
+
+    it('stores nothing when the import changes nothing', () => {
+      expect(importProgressEvents(local, local, 'merge', 200)).to.deep.equal([]);
+      expect(importProgressEvents(local, local, 'replace', 200)).to.deep.equal([]);
+    });
+
+    it('removes lessons missing from a replacement', () => {
+      const incoming = stored({ b: local.lessons.b });
+      const events = importProgressEvents(local, incoming, 'replace', 200);
+      expect(events).to.deep.equal([{ type: 'imported', at: 200, lessons: {}, removed: ['a'] }]);
+      expect(Object.keys(replayProgress([...progressEventsOf(local), ...events]).lessons)).to.deep.equal(['b']);
+    });
+  });
+
+  describe('appendProgressEvent', () => {
+    it('keeps consecutive edits of the same note as one event', () => {
+      let events: ProgressEvent[] = [];
+      events = appendProgressEvent(events, { type: 'note', lessonId: 'a', at: 1, text: 'dr' });
+      events = appendProgressEvent(events, { type: 'note', lessonId: 'a', at: 2, text: 'draft' });
+      events = appendProgressEvent(events, { type: 'note', lessonId: 'a', at: 3, text: 'pin', section: { anchor: 's', heading: 'S' } });
+
+      expect(events.map(event => event.at)).to.deep.equal([2, 3]);
+    });
+
+    it('compacts older events into a snapshot', () => {
+      let events: ProgressEvent[] = [];
+      for (let i = 0; i < MAX_PROGRESS_EVENTS; i++) {
+        events = appendProgressEvent(events, { type: 'opened', lessonId: `lesson-${i % 10}`, at: i + 1 });
+      }
+
+      expect(events.length).to.be.lessThan(MAX_PROGRESS_EVENTS);
+      expect(events[0].type).to.equal('snapshot');
+      expect(replayProgress(events).lessons['lesson-0'].viewCount).to.equal(MAX_PROGRESS_EVENTS / 10);
+    });
+  });
+
+  describe('progressHistory', () => {
+    it('starts after the last full reset', () => {
+      const events: ProgressEvent[] = [
+        { type: 'opened', lessonId: 'a', at: 1 },
+        { type: 'reset', at: 2 },
+        { type: 'opened', lessonId: 'b', at: 3 },
+        { type: 'reset', lessonId: 'b', at: 4 },
+      ];
+
+      expect(progressHistory(events).map(event => event.at)).to.deep.equal([3, 4]);
+    });
+  });
+});
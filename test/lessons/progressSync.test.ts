@@ -0,0 +1,170 @@
+/**
+ * Progress Sync Tests
+ *
+ * Verifies progress file parsing and versioning, merging progress from
+ * another machine, and the change summary shown before importing.
+ */
+
+import { expect } from 'chai';
+import {
+  createProgressFile,
+  diffProgress,
+  mergeProgress,
+  parseProgressFile,
+  progressFileName,
+  ProgressFileError,
+  PROGRESS_FILE_VERSION,
+} from '../../src/utils/ProgressSync';
+import { GlobalProgressState, ProgressState } from '../../src/types';
+
+function progress(lessonId: string, overrides: Partial<ProgressState> = {}): ProgressState {
+  return {
+    lessonId,
+    status: 'in-progress',
+    completedCommands: [],
+    lastAccessed: 1000,
+    timeSpentSeconds: 0,
+    viewCount: 1,
+    ...overrides,
+  };
+}
+
+function state(...lessons: ProgressState[]): GlobalProgressState {
+  return {
+    lessons: Object.fromEntries(lessons.map(lesson => [lesson.lessonId, lesson])),
+    lastSync: 0,
+    totalCompleted: 0,
+    totalInProgress: 0,
+    totalTimeSpent: 0,
+  };
+}
+
+describe('ProgressSync', () => {
+  describe('progress files', () => {
+    it('round-trips an exported file', () => {
+      const file = createProgressFile(state(progress('a')), 'devbox-1', new Date('2026-02-01T00:00:00Z'));
+      const parsed = parseProgressFile(JSON.stringify(file));
+
+      expect(parsed.version).to.equal(PROGRESS_FILE_VERSION);
+      expect(parsed.machine).to.equal('devbox-1');
+      expect(parsed.exportedAt).to.equal('2026-02-01T00:00:00.000Z');
+      expect(parsed.progress.lessons.a.status).to.equal('in-progress');
+    });
+
+    it('accepts unversioned progress (exportProgress output)', () => {
+      const parsed = parseProgressFile(JSON.stringify(state(progress('a'))));
+      expect(parsed.version).to.equal(0);
+      expect(Object.keys(parsed.progress.lessons)).to.deep.equal(['a']);
+    });
+
+    it('rejects invalid JSON, other files and newer versions', () => {
+      expect(() => parseProgressFile('{')).to.throw(ProgressFileError, /Not valid JSON/);
+      expect(() => parseProgressFile('{"name": "package"}')).to.throw(ProgressFileError, /Not a Tenstorrent progress file/);
+      expect(() => parseProgressFile(JSON.stringify({ ...createProgressFile(state(), 'x'), version: 99 })))
+        .to.throw(ProgressFileError, /Unsupported progress file version 99/);
+      expect(() => parseProgressFile(JSON.stringify({ ...createProgressFile(state(), 'x'), progress: { lessons: { a: {} } } })))
+        .to.throw(ProgressFileError, /no valid lesson progress/);
+    });
+
+    it('rejects progress with numbers that are missing or not finite', () => {
+      const withLesson = (overrides: Record<string, unknown>) =>
+        JSON.stringify(createProgressFile(state(progress('a', overrides as Partial<ProgressState>)), 'x'));
+      expect(() => parseProgressFile(withLesson({ timeSpentSeconds: '600' }))).to.throw(ProgressFileError, /no valid lesson progress/);
+      expect(() => parseProgressFile(withLesson({ viewCount: undefined }))).to.throw(ProgressFileError, /no valid lesson progress/);
+      expect(() => parseProgressFile(withLesson({ firstAccessed: null }))).to.throw(ProgressFileError, /no valid lesson progress/);
+      expect(() => parseProgressFile(JSON.stringify(createProgressFile(state(), 'x')).replace('"totalTimeSpent":0', '"totalTimeSpent":1e999')))
+        .to.throw(ProgressFileError, /no valid lesson progress/);
+    });
+
+    it('names sync files after the machine', () => {
+      expect(progressFileName('DevBox 3.lab')).to.equal('progress-devbox-3.lab.json');
+      expect(progressFileName('')).to.equal('progress-unknown.json');
+    });
+  });
+
+  describe('mergeProgress', () => {
+    it('unions commands, takes max time and the latest access', () => {
+      const local = state(progress('a', {
+        completedCommands: ['one'],
+        firstAccessed: 500,
+        lastAccessed: 2000,
+        timeSpentSeconds: 300,
+        viewCount: 4,
+      }));
+      const incoming = state(progress('a', {
+        status: 'completed',
+        completedCommands: ['one', 'two'],
+        firstAccessed: 100,
+        lastAccessed: 1500,
+        timeSpentSeconds: 900,
+        viewCount: 2,
+      }));
+
+      const merged = mergeProgress(local, incoming, 5000);
+      expect(merged.lessons.a).to.deep.equal({
+        lessonId: 'a',
+        status: 'completed',
+        completedCommands: ['one', 'two'],
+        firstAccessed: 100,
+        lastAccessed: 2000,
+        timeSpentSeconds: 900,
+        viewCount: 4,
+      });
+      expect(merged).to.include({ lastSync: 5000, totalCompleted: 1, totalInProgress: 0, totalTimeSpent: 900 });
+    });
+
+    it('adds lessons only the other machine has and keeps local-only lessons', () => {
+      const merged = mergeProgress(state(progress('a')), state(progress('b', { status: 'completed' })));
+      expect(Object.keys(merged.lessons)).to.deep.equal(['a', 'b']);
+      expect(merged.totalCompleted).to.equal(1);
+      expect(merged.totalInProgress).to.equal(1);
+    });
+
+    it('clears failed steps that succeeded on the other machine', () => {
+      const merged = mergeProgress(
+        state(progress('a', { failedSteps: ['block:1', 'block:2'] })),
+        state(progress('a', { completedSteps: ['block:1'] }))
+      );
+      expect(merged.lessons.a.completedSteps).to.deep.equal(['block:1']);
+      expect(merged.lessons.a.failedSteps).to.deep.equal(['block:2']);
+    });
+
+    it('keeps notes from the last opened side and the newest section notes', () => {
+      const merged = mergeProgress(
+        state(progress('a', {
+          lastAccessed: 1000,
+          notes: 'old',
+          sectionNotes: { s1: { heading: 'S1', text: 'local', updatedAt: 50 } },
+        })),
+        state(progress('a', {
+          lastAccessed: 3000,
+          notes: 'new',
+          sectionNotes: {
+            s1: { heading: 'S1', text: 'incoming', updatedAt: 10 },
+            s2: { heading: 'S2', text: 'only incoming', updatedAt: 10 },
+          },
+        }))
+      );
+
+      expect(merged.lessons.a.notes).to.equal('new');
+      expect(merged.lessons.a.sectionNotes?.s1.text).to.equal('local');
+      expect(merged.lessons.a.sectionNotes?.s2.text).to.equal('only incoming');
+    });
+  });
+
+  describe('diffProgress', () => {
+    it('summarizes what an import changes', () => {
+      const local = state(progress('a', { completedCommands: ['one'], timeSpentSeconds: 60 }), progress('c'));
+      const merged = mergeProgress(local, state(
+        progress('a', { status: 'completed', completedCommands: ['one', 'two'], timeSpentSeconds: 600 }),
+        progress('b'),
+        progress('c')
+      ));
+
+      expect(diffProgress(local, merged)).to.deep.equal([
+        { lessonId: 'a', changes: ['in-progress → completed', '+1 command', 'time 1m → 10m'] },
+        { lessonId: 'b', changes: ['new (in-progress)'] },
+      ]);
+    });
+  });
+});
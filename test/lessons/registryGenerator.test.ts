@@ -0,0 +1,130 @@
+/**
+ * Registry Generator Tests
+ *
+ * Verifies frontmatter parsing, drift detection and registry generation,
+ * and enforces that lesson-registry.json agrees with lesson frontmatter.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findRegistryDrift,
+  formatDriftReport,
+  generateRegistry,
+  LessonFile,
+  parseLessonFile,
+} from '../../src/utils/RegistryGenerator';
+import { LessonMetadata, LessonRegistry } from '../../src/types';
+import { lesson } from './fixtures';
+
+function file(id: string, overrides: Partial<LessonMetadata> = {}): LessonFile {
+  const { title, description, category, tags, supportedHardware, status } = lesson(id);
+  return {
+    markdownFile: `content/lessons/${id}.md`,
+    frontmatter: { id, title, description, category, tags, supportedHardware, status, ...overrides },
+  };
+}
+
+function registry(lessons: LessonMetadata[]): LessonRegistry {
+  return { version: '1.0.0', categories: [], lessons };
+}
+
+describe('RegistryGenerator', () => {
+  describe('parseLessonFile', () => {
+    it('keeps only frontmatter-owned fields', () => {
+      const parsed = parseLessonFile('content/lessons/a.md', [
+        '---',
+        'id: a',
+        'title: A Lesson',
+        'tags:',
+        '  - vllm',
+        'estimatedMinutes: 10',
+        'author: someone',
+        '---',
+        '# A Lesson',
+      ].join('\n'));
+
+      expect(parsed).to.deep.equal({
+        markdownFile: 'content/lessons/a.md',
+        frontmatter: { id: 'a', title: 'A Lesson', tags: ['vllm'], estimatedMinutes: 10 },
+      });
+    });
+  });
+
+  describe('findRegistryDrift', () => {
+    it('reports nothing when registry and frontmatter agree', () => {
+      expect(findRegistryDrift(registry([lesson('a')]), [file('a')])).to.deep.equal([]);
+    });
+
+    it('reports every disagreeing field', () => {
+      const drift = findRegistryDrift(
+        registry([lesson('a', { estimatedMinutes: 5 })]),
+        [file('a', { category: 'serving', tags: ['vllm'] })]
+      );
+      expect(drift.map(d => (d.kind === 'field' ? d.field : d.kind))).to.deep.equal(['category', 'tags', 'estimatedMinutes']);
+      expect(drift[0]).to.include({ registry: 'first-inference', frontmatter: 'serving' });
+    });
+
+    it('reports lessons missing from either side', () => {
+      const drift = findRegistryDrift(registry([lesson('a')]), [file('b')]);
+      expect(drift.map(d => [d.kind, d.lessonId])).to.deep.equal([
+        ['no-frontmatter', 'a'],
+        ['not-in-registry', 'b'],
+      ]);
+    });
+  });
+
+  describe('generateRegistry', () => {
+    it('takes frontmatter values and keeps registry-only fields', () => {
+      const existing = registry([lesson('a', { order: 3, completionEvents: ['onCommand:x'], nextLesson: 'b' })]);
+      const generated = generateRegistry(existing, [file('a', { title: 'New Title' })]);
+
+      expect(generated.lessons[0]).to.deep.include({
+        title: 'New Title',
+        order: 3,
+        completionEvents: ['onCommand:x'],
+        nextLesson: 'b',
+      });
+      expect(findRegistryDrift(generated, [file('a', { title: 'New Title' })])).to.deep.equal([]);
+    });
+
+    it('appends new lesson files at the end of their category', () => {
+      const generated = generateRegistry(
+        registry([lesson('a', { order: 1 }), lesson('b', { order: 2 })]),
+        [file('a'), file('b'), file('c', { status: 'draft' })]
+      );
+
+      expect(generated.lessons.map(l => l.id)).to.deep.equal(['a', 'b', 'c']);
+      expect(generated.lessons[2]).to.deep.include({ order: 3, status: 'draft', markdownFile: 'content/lessons/c.md' });
+    });
+
+    it('does not modify the existing registry', () => {
+      const existing = registry([lesson('a')]);
+      generateRegistry(existing, [file('a', { title: 'Changed' })]);
+      expect(existing.lessons[0].title).to.equal('a');
+    });
+  });
+
+  describe('formatDriftReport', () => {
+    it('describes each difference on its own line', () => {
+      const report = formatDriftReport(findRegistryDrift(registry([lesson('a')]), [file('a', { status: 'draft' })]));
+      expect(report.split('\n')).to.deep.equal([
+        '1 difference(s) between lesson registry and frontmatter:',
+        'a.status: registry "validated" ≠ frontmatter "draft" (content/lessons/a.md)',
+      ]);
+    });
+  });
+
+  describe('lesson registry', () => {
+    const root = path.join(__dirname, '../..');
+    const data: LessonRegistry = JSON.parse(fs.readFileSync(path.join(root, 'content/lesson-registry.json'), 'utf8'));
+    const files = fs.readdirSync(path.join(root, 'content/lessons'))
+      .filter(name => name.endsWith('.md'))
+      .map(name => parseLessonFile(`content/lessons/${name}`, fs.readFileSync(path.join(root, 'content/lessons', name), 'utf8')));
+
+    it('agrees with lesson frontmatter (run `npm run registry:drift` for details)', () => {
+      expect(formatDriftReport(findRegistryDrift(data, files))).to.equal('Lesson registry and frontmatter agree.');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Registry Validator Tests
+ *
+ * Verifies each kind of registry diagnostic, and enforces that the shipped
+ * lesson-registry.json validates cleanly.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { locateDiagnostic, validateRegistry } from '../../src/utils/RegistryValidator';
+import { lesson as validLesson } from './fixtures';
+
+/**
+ * A registry entry; overrides may make it invalid
+ */
+function lesson(id: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { ...validLesson(id), ...overrides };
+}
+
+function registry(lessons: Record<string, unknown>[]): Record<string, unknown> {
+  return {
+    version: '1.0.0',
+    categories: [{ id: 'first-inference', title: 'First Inference', description: '', order: 1 }],
+    lessons,
+  };
+}
+
+function codes(data: unknown, options = {}): string[] {
+  return validateRegistry(data, options).diagnostics.map(d => d.code);
+}
+
+describe('RegistryValidator', () => {
+  it('accepts a valid registry', () => {
+    const result = validateRegistry(registry([lesson('a', { nextLesson: 'b' }), lesson('b', { previousLesson: 'a' })]));
+    expect(result.diagnostics).to.deep.equal([]);
+    expect(result.registry).to.not.be.null;
+  });
+
+  it('rejects documents without categories and lessons arrays', () => {
+    const result = validateRegistry({ version: '1.0.0', lessons: {} });
+    expect(result.registry).to.be.null;
+    expect(result.diagnostics[0].code).to.equal('invalid-schema');
+    expect(validateRegistry('nope').registry).to.be.null;
+  });
+
+  it('reports mistyped lesson fields', () => {
+    const result = validateRegistry(registry([lesson('a', { order: '1', tags: 'vllm' })]));
+    expect(result.diagnostics.map(d => d.path)).to.deep.equal(['lessons[0].order', 'lessons[0].tags']);
+    expect(result.diagnostics.every(d => d.code === 'invalid-schema' && d.lessonId === 'a')).to.be.true;
+  });
+
+  it('reports undefined and unsupported categories', () => {
+    expect(codes(registry([lesson('a', { category: 'cooking' })]))).to.deep.equal(['unknown-category']);
+
+    const data = registry([]);
+    (data.categories as unknown[]).push({ id: 'cooking', title: 'Cooking' });
+    expect(codes(data)).to.deep.equal(['unknown-category']);
+  });
+
+  it('reports unknown hardware types and statuses', () => {
+    const result = validateRegistry(registry([lesson('a', { status: 'done', validatedOn: ['n150', 'n999'] })]));
+    expect(result.diagnostics.map(d => d.code)).to.deep.equal(['unknown-value', 'unknown-value']);
+    expect(result.diagnostics[1].message).to.include('n999');
+  });
+
+  it('reports duplicate lesson ids', () => {
+    expect(codes(registry([lesson('a'), lesson('a')]))).to.deep.equal(['duplicate-id']);
+  });
+
+  it('reports dangling sequence and prerequisite references', () => {
+    const result = validateRegistry(registry([
+      lesson('a', { nextLesson: 'ghost', prerequisites: [{ lessonId: 'phantom', required: true }] }),
+    ]));
+    expect(result.diagnostics.map(d => [d.code, d.path])).to.deep.equal([
+      ['dangling-reference', 'lessons[0].nextLesson'],
+      ['dangling-reference', 'lessons[0].prerequisites[0].lessonId'],
+    ]);
+  });
+
+  it('reports missing markdown files when a file check is given', () => {
+    const data = registry([lesson('a'), lesson('b')]);
+    expect(codes(data, { fileExists: (file: string) => file.endsWith('a.md') })).to.deep.equal(['missing-markdown']);
+    expect(codes(data)).to.deep.equal([]);
+  });
+
+  it('reports each prerequisite cycle once', () => {
+    const result = validateRegistry(registry([
+      lesson('a', { prerequisites: [{ lessonId: 'c', required: true }] }),
+      lesson('b', { prerequisites: [{ lessonId: 'a', required: true }] }),
+      lesson('c', { prerequisites: [{ lessonId: 'b', required: false }] }),
+      lesson('d', { prerequisites: [{ lessonId: 'd', required: true }] }),
+    ]));
+    expect(result.diagnostics.map(d => d.message)).to.deep.equal([
+      'Prerequisite cycle: a → c → b → a',
+      'Prerequisite cycle: d → d',
+    ]);
+  });
+
+  it('warns about completion events for unknown commands', () => {
+    const data = registry([lesson('a', { completionEvents: ['onCommand:tenstorrent.known', 'onCommand:tenstorrent.gone'] })]);
+    const result = validateRegistry(data, { knownCommands: new Set(['tenstorrent.known']) });
+    expect(result.diagnostics).to.have.lengthOf(1);
+    expect(result.diagnostics[0]).to.include({
+      code: 'unknown-command',
+      severity: 'warning',
+      path: 'lessons[0].completionEvents[1]',
+    });
+  });
+
+  describe('locateDiagnostic', () => {
+    const text = JSON.stringify(registry([lesson('a'), lesson('b', { nextLesson: 'ghost' })]), null, 2);
+
+    it('points at the offending field of the lesson', () => {
+      const [diagnostic] = validateRegistry(JSON.parse(text)).diagnostics;
+      const { line, character } = locateDiagnostic(text, diagnostic);
+      expect(text.split('\n')[line].slice(character)).to.match(/^"nextLesson": "ghost"/);
+    });
+
+    it('falls back to the top of the file', () => {
+      expect(locateDiagnostic(text, { code: 'invalid-schema', severity: 'error', message: '', path: '' }))
+        .to.deep.equal({ line: 0, character: 0 });
+    });
+  });
+
+  describe('lesson registry', () => {
+    const root = path.join(__dirname, '../..');
+    const packageJson = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+    const data = JSON.parse(fs.readFileSync(path.join(root, 'content/lesson-registry.json'), 'utf8'));
+
+    it('has no diagnostics', () => {
+      const { diagnostics } = validateRegistry(data, {
+        fileExists: file => fs.existsSync(path.join(root, file)),
+        knownCommands: new Set(packageJson.contributes.commands.map((c: { command: string }) => c.command)),
+      });
+      expect(diagnostics.map(d => `${d.path}: ${d.message}`)).to.deep.equal([]);
+    });
+  });
+});
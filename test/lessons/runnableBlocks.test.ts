@@ -0,0 +1,89 @@
+/**
+ * Runnable Code Block Tests
+ *
+ * Verifies fence info parsing, detection of commands that need
+ * confirmation, and rendering of runnable blocks and step keys.
+ */
+
+import { expect } from 'chai';
+import { DEFAULT_RUN_TERMINAL, findDangerousCommands, parseFenceInfo } from '../../src/utils/RunnableBlocks';
+import { codeBlockStepKey } from '../../src/utils/LessonSteps';
+import { MarkdownRenderer } from '../../src/renderers/MarkdownRenderer';
+
+describe('RunnableBlocks', () => {
+  describe('parseFenceInfo', () => {
+    it('treats plain fences as not runnable', () => {
+      expect(parseFenceInfo('bash')).to.deep.equal({ language: 'bash', runnable: false, terminal: undefined });
+      expect(parseFenceInfo(undefined)).to.deep.equal({ language: '', runnable: false, terminal: undefined });
+    });
+
+    it('runs "run" blocks in the default terminal', () => {
+      expect(parseFenceInfo('bash run')).to.deep.equal({ language: 'bash', runnable: true, terminal: DEFAULT_RUN_TERMINAL });
+    });
+
+    it('runs blocks naming a terminal in that terminal', () => {
+      expect(parseFenceInfo('bash {terminal=vllm-server}')).to.deep.equal({
+        language: 'bash',
+        runnable: true,
+        terminal: 'vllm-server',
+      });
+      expect(parseFenceInfo('bash run {terminal="tt-metal", title=x}').terminal).to.equal('tt-metal');
+    });
+  });
+
+  describe('findDangerousCommands', () => {
+    it('accepts ordinary commands', () => {
+      expect(findDangerousCommands('tt-smi -s\nls -la ~/models\nrm -f out.log')).to.deep.equal([]);
+    });
+
+    it('flags sudo', () => {
+      expect(findDangerousCommands('sudo apt-get install -y git')).to.deep.equal(['runs commands as root (sudo)']);
+      expect(findDangerousCommands('cd x && sudo make install')).to.have.lengthOf(1);
+      expect(findDangerousCommands('echo pseudocode')).to.deep.equal([]);
+    });
+
+    it('flags recursive forced deletes in any option order', () => {
+      for (const command of ['rm -rf build', 'rm -fr build', 'rm -r -f build', 'rm -Rf build', 'rm --recursive --force build']) {
+        expect(findDangerousCommands(command), command).to.deep.equal(['deletes files recursively (rm -rf)']);
+      }
+      expect(findDangerousCommands('rm -r build')).to.deep.equal([]);
+    });
+
+    it('flags downloaded scripts piped or passed to a shell', () => {
+      const expected = ['pipes a downloaded script into a shell (curl | bash)'];
+      expect(findDangerousCommands('curl -fsSL https://example.com/install.sh | bash')).to.deep.equal(expected);
+      expect(findDangerousCommands('wget -qO- https://example.com/x | sh')).to.deep.equal(expected);
+      expect(findDangerousCommands('/bin/bash -c "$(curl -fsSL https://example.com/install.sh)"')).to.deep.equal(expected);
+      expect(findDangerousCommands('curl http://localhost:8000/health | jq')).to.deep.equal([]);
+    });
+
+    it('reports every reason', () => {
+      expect(findDangerousCommands('curl -sL x | sudo bash && sudo rm -rf /opt/tt')).to.have.lengthOf(3);
+    });
+  });
+
+  describe('rendering', () => {
+    // marked is configured globally, so share one renderer
+    const renderer = new MarkdownRenderer();
+
+    it('marks runnable blocks with their terminal and leaves others alone', async () => {
+      const { html } = await renderer.render(
+        '```bash {terminal=vllm-server}\necho "a<b"\n```\n\n```bash\nls\n```\n'
+      );
+
+      expect(html).to.include('<pre data-runnable="true" data-terminal="vllm-server" data-step-key="block:');
+      expect(html).to.include('echo "a&lt;b"');
+      expect(html.match(/data-runnable/g)).to.have.lengthOf(1);
+    });
+
+    it('writes step keys into command buttons and runnable blocks', async () => {
+      const { html } = await renderer.render(
+        '[Detect](command:tenstorrent.runHardwareDetection)\n\n```bash run\ntt-smi -s\n```\n\n```bash\nls\n```\n'
+      );
+
+      expect(html).to.include('data-step-key="command:tenstorrent.runHardwareDetection"');
+      expect(html).to.include(`data-step-key="${codeBlockStepKey('tt-smi -s')}"`);
+      expect(html.match(/data-step-key/g)).to.have.lengthOf(2);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Session Timer Tests
+ *
+ * Verifies that time on a lesson only counts while it's visible, focused
+ * and not idle, and that it's reported in bounded increments. Uses a fake
+ * clock so no real time passes.
+ */
+
+import { expect } from 'chai';
+import { FLUSH_INTERVAL_MS, IDLE_TIMEOUT_MS, SessionClock, SessionTimer } from '../../src/utils/SessionTimer';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * Clock whose time only moves when advanced, firing due timers on the way
+ */
+class FakeClock implements SessionClock {
+  private time = 0;
+  private timers: { ms: number; next: number; callback: () => void }[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  every(ms: number, callback: () => void): () => void {
+    const timer = { ms, next: this.time + ms, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(other => other !== timer);
+    };
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const due = this.timers.filter(timer => timer.next <= end).sort((a, b) => a.next - b.next)[0];
+      if (!due) {
+        break;
+      }
+      this.time = due.next;
+      due.next += due.ms;
+      due.callback();
+    }
+    this.time = end;
+  }
+}
+
+describe('SessionTimer', () => {
+  let clock: FakeClock;
+  let reports: [string, number][];
+  let timer: SessionTimer;
+
+  const total = () => reports.reduce((sum, [, seconds]) => sum + seconds, 0);
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    reports = [];
+    timer = new SessionTimer((lessonId, seconds) => reports.push([lessonId, seconds]), clock);
+  });
+
+  it('reports active time in increments of at most the flush interval', () => {
+    timer.start('a');
+    for (let i = 0; i < 4; i++) {
+      clock.advance(MINUTE);
+      timer.activity();
+    }
+    clock.advance(30 * SECOND);
+    timer.stop();
+
+    expect(reports).to.deep.equal([['a', 60], ['a', 60], ['a', 60], ['a', 60], ['a', 30]]);
+    expect(reports.every(([, seconds]) => seconds * SECOND <= FLUSH_INTERVAL_MS)).to.equal(true);
+  });
+
+  it('stops counting when idle and resumes on activity', () => {
+    timer.start('a');
+    clock.advance(IDLE_TIMEOUT_MS + 20 * MINUTE);
+    expect(total()).to.equal(IDLE_TIMEOUT_MS / SECOND);
+
+    timer.activity();
+    clock.advance(10 * SECOND);
+    timer.stop();
+    expect(total()).to.equal(IDLE_TIMEOUT_MS / SECOND + 10);
+  });
+
+  it('does not count time while the panel is hidden', () => {
+    timer.start('a');
+    clock.advance(10 * SECOND);
+    timer.setVisible(false);
+    clock.advance(2 * 60 * MINUTE);
+    timer.setVisible(true);
+    clock.advance(5 * SECOND);
+    timer.stop();
+
+    expect(total()).to.equal(15);
+  });
+
+  it('does not count time while the window is unfocused', () => {
+    timer.start('a');
+    timer.setFocused(false);
+    clock.advance(3 * 60 * MINUTE);
+    timer.setFocused(true);
+    clock.advance(20 * SECOND);
+    timer.stop();
+
+    expect(total()).to.equal(20);
+  });
+
+  it('ends the previous session when another lesson starts', () => {
+    timer.start('a');
+    clock.advance(40 * SECOND);
+    timer.start('b');
+    clock.advance(5 * SECOND);
+    timer.stop();
+
+    expect(reports).to.deep.equal([['a', 40], ['b', 5]]);
+    expect(timer.currentLesson).to.equal(undefined);
+  });
+
+  it('reports nothing after stopping', () => {
+    timer.start('a');
+    clock.advance(500);
+    timer.stop();
+    clock.advance(10 * MINUTE);
+    timer.activity();
+    timer.stop();
+
+    expect(reports).to.deep.equal([['a', 1]]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Terminal Sessions Tests
+ *
+ * Verifies how terminal and command events update each context terminal's
+ * session, and how sessions are described in the Terminals view. Uses a
+ * fake clock.
+ */
+
+import { expect } from 'chai';
+import {
+  describeSession,
+  formatClockTime,
+  shortenCommand,
+  TerminalSessions,
+} from '../../src/utils/TerminalSessions';
+
+type Context = 'tt-metal' | 'vllm-server';
+
+const START = new Date(2026, 9, 19, 14, 3).getTime();
+
+describe('TerminalSessions', () => {
+  let time: number;
+  let changes: Context[];
+  let sessions: TerminalSessions<Context>;
+
+  beforeEach(() => {
+    time = START;
+    changes = [];
+    sessions = new TerminalSessions<Context>(key => changes.push(key), () => time);
+  });
+
+  it('starts closed', () => {
+    expect(sessions.get('tt-metal')).to.deep.equal({ state: 'closed' });
+  });
+
+  it('tracks a command from start to exit', () => {
+    sessions.opened('tt-metal', 'metal-dev');
+    sessions.commandStarted('tt-metal', 'python3 -m ttnn.examples');
+    expect(sessions.get('tt-metal')).to.deep.equal({
+      state: 'running',
+      profile: 'metal-dev',
+      command: 'python3 -m ttnn.examples',
+      startedAt: START,
+    });
+
+    time += 5000;
+    sessions.commandEnded('tt-metal', 1);
+    expect(sessions.get('tt-metal')).to.deep.equal({
+      state: 'idle',
+      profile: 'metal-dev',
+      command: undefined,
+      startedAt: undefined,
+      lastExit: { command: 'python3 -m ttnn.examples', exitCode: 1, endedAt: START + 5000 },
+    });
+    expect(changes).to.deep.equal(['tt-metal', 'tt-metal', 'tt-metal']);
+  });
+
+  it('ignores ends without a running command', () => {
+    sessions.opened('tt-metal');
+    sessions.commandEnded('tt-metal', 0);
+    expect(sessions.get('tt-metal').lastExit).to.equal(undefined);
+    expect(changes).to.deep.equal(['tt-metal']);
+  });
+
+  it('ends a running command with an unknown exit code when the terminal closes', () => {
+    sessions.opened('vllm-server', 'vllm-n300');
+    sessions.commandStarted('vllm-server', 'python start-vllm-server.py');
+    sessions.closed('vllm-server');
+    expect(sessions.get('vllm-server')).to.deep.equal({
+      state: 'closed',
+      profile: 'vllm-n300',
+      lastExit: { command: 'python start-vllm-server.py', endedAt: START },
+    });
+  });
+
+  it('marks commands whose end cannot be observed as unknown', () => {
+    sessions.opened('tt-metal', 'metal-dev');
+    sessions.commandSent('tt-metal', 'pip install flask');
+    expect(sessions.get('tt-metal')).to.include({ state: 'unknown', command: 'pip install flask', startedAt: START });
+
+    // Their end is never reported, so a late end event is ignored
+    sessions.commandEnded('tt-metal', 0);
+    expect(sessions.get('tt-metal').state).to.equal('unknown');
+
+    // A command observed through shell integration replaces it
+    sessions.commandStarted('tt-metal', 'make');
+    expect(sessions.get('tt-metal')).to.include({ state: 'running', command: 'make' });
+  });
+
+  it('ends an unknown command with an unknown exit code when the terminal closes', () => {
+    sessions.opened('tt-metal');
+    sessions.commandSent('tt-metal', 'python3 -i');
+    sessions.closed('tt-metal');
+    expect(sessions.get('tt-metal').lastExit).to.deep.equal({ command: 'python3 -i', endedAt: START });
+  });
+
+  it('keeps the last exit across restarts', () => {
+    sessions.opened('tt-metal');
+    sessions.commandStarted('tt-metal', 'make');
+    sessions.commandEnded('tt-metal', 0);
+    sessions.closed('tt-metal');
+    sessions.opened('tt-metal', 'metal-dev');
+    expect(sessions.get('tt-metal').state).to.equal('idle');
+    expect(sessions.get('tt-metal').lastExit?.exitCode).to.equal(0);
+  });
+
+  describe('descriptions', () => {
+    it('describes each state', () => {
+      expect(describeSession({ state: 'closed' })).to.equal('not running');
+      expect(describeSession({ state: 'idle' })).to.equal('idle');
+      expect(describeSession({ state: 'idle', lastExit: { command: 'x', exitCode: 2, endedAt: START } }))
+        .to.equal('idle · last exit 2');
+      expect(describeSession({ state: 'idle', lastExit: { command: 'x', endedAt: START } }))
+        .to.equal('idle · last exit ?');
+      expect(describeSession({ state: 'running', command: 'vllm serve', startedAt: START }))
+        .to.equal('vllm serve · since 14:03');
+      expect(describeSession({ state: 'unknown', command: 'pip install flask', startedAt: START }))
+        .to.equal('pip install flask · sent 14:03 · status unknown');
+    });
+
+    it('shortens commands to their first line', () => {
+      expect(shortenCommand('cd ~/tt-metal\npython3 x.py')).to.equal('cd ~/tt-metal');
+      expect(shortenCommand('a'.repeat(60), 10)).to.equal(`${'a'.repeat(9)}…`);
+    });
+
+    it('formats local clock times', () => {
+      expect(formatClockTime(new Date(2026, 0, 1, 9, 5).getTime())).to.equal('09:05');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Toolchain Paths Tests
+ *
+ * Verifies how toolchain paths resolve from settings, the stored tt-metal
+ * clone location and the defaults, and which configured paths are reported
+ * as problems.
+ */
+
+import { expect } from 'chai';
+import {
+  expandHome,
+  findToolchainPathProblems,
+  pathVariables,
+  resolveToolchainPaths,
+  TOOLCHAIN_PATHS,
+  toolchainTemplateValues,
+} from '../../src/utils/ToolchainPaths';
+
+describe('ToolchainPaths', () => {
+  describe('resolveToolchainPaths', () => {
+    it('falls back to the defaults under ~', () => {
+      const paths = resolveToolchainPaths();
+      expect(paths.ttMetal).to.deep.equal({ value: '~/tt-metal', source: 'default' });
+      expect(paths.inferenceServer.value).to.equal('~/.local/lib/tt-inference-server');
+      for (const key of Object.keys(TOOLCHAIN_PATHS) as (keyof typeof TOOLCHAIN_PATHS)[]) {
+        expect(paths[key].source, key).to.equal('default');
+      }
+    });
+
+    it('prefers settings, then the stored tt-metal location', () => {
+      expect(resolveToolchainPaths({ storedTtMetalPath: '/home/me/src/tt-metal' }).ttMetal)
+        .to.deep.equal({ value: '/home/me/src/tt-metal', source: 'stored' });
+
+      const paths = resolveToolchainPaths({
+        settings: { ttMetal: '/opt/tt-metal', models: '/nvme/models' },
+        storedTtMetalPath: '/home/me/src/tt-metal',
+      });
+      expect(paths.ttMetal).to.deep.equal({ value: '/opt/tt-metal', source: 'setting' });
+      expect(paths.models).to.deep.equal({ value: '/nvme/models', source: 'setting' });
+      expect(paths.vllm.source).to.equal('default');
+    });
+
+    it('only uses the stored location for tt-metal', () => {
+      expect(resolveToolchainPaths({ storedTtMetalPath: '/src/tt-metal' }).vllm.value).to.equal('~/tt-vllm');
+    });
+
+    it('trims settings, drops trailing slashes and ignores blank settings', () => {
+      const paths = resolveToolchainPaths({ settings: { scratchpad: '  /scratch/tt//  ', vllm: '   ', forge: '/' } });
+      expect(paths.scratchpad.value).to.equal('/scratch/tt');
+      expect(paths.vllm).to.deep.equal({ value: '~/tt-vllm', source: 'default' });
+      expect(paths.forge.value).to.equal('/');
+    });
+  });
+
+  describe('expandHome', () => {
+    it('expands a leading ~ only', () => {
+      expect(expandHome('~/tt-metal', '/home/me')).to.equal('/home/me/tt-metal');
+      expect(expandHome('~', '/home/me')).to.equal('/home/me');
+      expect(expandHome('/opt/~/x', '/home/me')).to.equal('/opt/~/x');
+      expect(expandHome('~other/x', '/home/me')).to.equal('~other/x');
+    });
+  });
+
+  describe('template values', () => {
+    it('maps paths to their template variables', () => {
+      const values = toolchainTemplateValues(resolveToolchainPaths({ settings: { vllmVenv: '/opt/venvs/vllm' } }));
+      expect(values.vllmVenvPath).to.equal('/opt/venvs/vllm');
+      expect(values.ttMetalPath).to.equal('~/tt-metal');
+      expect(Object.keys(values)).to.have.lengthOf(Object.keys(TOOLCHAIN_PATHS).length);
+    });
+
+    it('declares path variables defaulting to the default locations', () => {
+      expect(pathVariables('ttMetal', 'scratchpad')).to.deep.equal({
+        ttMetalPath: { type: 'path', description: 'tt-metal directory', default: '~/tt-metal' },
+        scratchpadPath: { type: 'path', description: 'scratchpad directory', default: '~/tt-scratchpad' },
+      });
+    });
+  });
+
+  describe('findToolchainPathProblems', () => {
+    const existing = new Set(['/opt/tt-metal', '/home/me/models']);
+    const exists = (absolutePath: string) => existing.has(absolutePath);
+
+    it('reports relative and missing configured paths', () => {
+      const paths = resolveToolchainPaths({
+        settings: { ttMetal: '/opt/tt-metal', models: '~/models', vllm: 'tt-vllm', scratchpad: '/missing' },
+      });
+      expect(findToolchainPathProblems(paths, exists, '/home/me')).to.deep.equal([
+        { key: 'vllm', value: 'tt-vllm', problem: 'is not an absolute path (or ~/...)' },
+        { key: 'scratchpad', value: '/missing', problem: "doesn't exist" },
+      ]);
+    });
+
+    it('does not check defaults or the stored location', () => {
+      const paths = resolveToolchainPaths({ storedTtMetalPath: '/gone/tt-metal' });
+      expect(findToolchainPathProblems(paths, () => false, '/home/me')).to.deep.equal([]);
+    });
+  });
+});